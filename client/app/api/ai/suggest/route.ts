@@ -1,62 +1,65 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { NextRequest, NextResponse } from "next/server";
+import { AdvisorProviderName, APIResponse, RiskProfile } from "@/types";
+import {
+  AdviceResult,
+  AdviceValidationError,
+  generateValidatedAdvice,
+} from "@/lib/ai/advise";
+import {
+  ADVISOR_PROVIDERS,
+  getAdvisorProvider,
+  isAdvisorProviderName,
+} from "@/lib/ai/provider";
+import { PROMPT_VERSION } from "@/lib/ai/prompt";
+import { resolveRiskProfile, RiskProfileError } from "@/lib/ai/riskProfile";
+import { resolveAllocationAddresses } from "@/lib/tokens/registry";
+import { getActiveChainId } from "@/lib/chain";
+import { recordSuggestion } from "@/lib/history";
+import { AuthError, requireRole } from "@/lib/auth";
+import { checkRateLimit, getAdviceRateLimit } from "@/lib/auth/rateLimit";
 
 // Type definitions
 interface RequestBody {
   amount: number;
   baseToken: string;
+  provider?: AdvisorProviderName;
+  riskProfile?: Partial<RiskProfile>; // omitted fields use defaults
 }
 
-interface TokenAllocation {
-  token: string;
-  percentage: number;
-  amount: number;
-  tokenAddress: string;
-}
-
-interface InvestmentAdvice {
-  allocations: TokenAllocation[];
-  reasons: string;
-  estimatedValue: number;
-  warnings: string;
-}
-
-interface APIResponse {
-  success: boolean;
-  data?: InvestmentAdvice | { error: string; raw: string };
-  error?: string;
-}
-
-// POST handler for getting investment advice from Gemini
+// POST handler for getting investment advice from the configured AI provider
 export async function POST(
   req: NextRequest
 ): Promise<NextResponse<APIResponse>> {
   try {
-    // Validate environment variable
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+    // Only advisors may spend AI quota, and each identity is rate limited
+    const identity = requireRole(req, "advisor");
+    const { limit, windowMs } = getAdviceRateLimit();
+    const rateLimit = checkRateLimit(`advice:${identity.id}`, limit, windowMs);
+    if (!rateLimit.allowed) {
       return NextResponse.json(
-        { success: false, error: "GEMINI_API_KEY is not configured" },
-        { status: 500 }
+        {
+          success: false,
+          error: `Rate limit exceeded. Try again in ${rateLimit.retryAfterSeconds}s`,
+        },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rateLimit.retryAfterSeconds) },
+        }
       );
     }
 
-    // Initialize Gemini client with API key from .env
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-
     // Parse and validate request body
     let requestBody: RequestBody;
     try {
       requestBody = await req.json();
-    } catch (error) {
+    } catch {
       return NextResponse.json(
         { success: false, error: "Invalid JSON in request body" },
         { status: 400 }
       );
     }
 
-    const { amount, baseToken } = requestBody;
+    const { amount, baseToken, provider } = requestBody;
 
     // Validate input parameters
     if (typeof amount !== "number" || amount <= 0) {
@@ -73,6 +76,34 @@ export async function POST(
       );
     }
 
+    if (provider !== undefined && !isAdvisorProviderName(provider)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Provider must be one of: ${ADVISOR_PROVIDERS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Categories and token addresses come from the registry for the chain the
+    // contract routes use
+    const chainId = await getActiveChainId();
+    const resolved = resolveRiskProfile(requestBody.riskProfile, chainId);
+    if (!("profile" in resolved)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid risk profile",
+          issues: resolved.issues,
+        },
+        { status: 400 }
+      );
+    }
+    const riskProfile = resolved.profile;
+
+    const advisor = getAdvisorProvider(provider);
+
     // Get current date for more accurate advice
     const currentDate = new Date().toLocaleDateString("en-US", {
       year: "numeric",
@@ -80,97 +111,84 @@ export async function POST(
       day: "numeric",
     });
 
-    // Optimized prompt for diversified, user-focused advice with current date
-    const prompt = `
-      You are a crypto investment advisor on ${currentDate}. The user has ${amount} ${baseToken} to invest. Suggest a diversified portfolio for short-term investment (e.g., yield farming or holding), focusing on best value: high profit potential, low volatility, and balanced risk.
-      
-      Provide:
-      1. Allocation breakdown as an array (e.g., [{"token": "USDT", "percentage": 50, "amount": 250, "tokenAddress": "0x..."}]).
-      2. Reasons based on current market trends, prices, 24h changes, and yields.
-      3. Total estimated value after allocation.
-      4. Warnings (e.g., market volatility).
-      
-      Respond ONLY in valid JSON format: 
-      { 
-        "allocations": [{"token": "string", "percentage": number, "amount": number, "tokenAddress": "string"}], 
-        "reasons": "string", 
-        "estimatedValue": ${amount}, 
-        "warnings": "string" 
-      }
-      
-      Do not include any text before or after the JSON.
-    `;
-
-    // Generate content from Gemini
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const output = response.text();
-
-    // Clean the output to ensure it's valid JSON
-    let cleanedOutput = output.trim();
-
-    // Remove potential markdown code blocks
-    if (cleanedOutput.startsWith("```json")) {
-      cleanedOutput = cleanedOutput
-        .replace(/^```json\s*/, "")
-        .replace(/\s*```$/, "");
-    } else if (cleanedOutput.startsWith("```")) {
-      cleanedOutput = cleanedOutput
-        .replace(/^```\s*/, "")
-        .replace(/\s*```$/, "");
-    }
-
-    // Parse the JSON response
-    let parsedOutput: InvestmentAdvice | { error: string; raw: string };
+    // Every request is kept in the suggestion history, failed ones included
+    const historyEntry = {
+      requestedBy: identity.id,
+      input: { amount, baseToken, riskProfile },
+      provider: advisor.name,
+      model: advisor.model,
+      promptVersion: PROMPT_VERSION,
+    };
+
+    // Generate advice, retrying with validation feedback on invalid output
+    let result: AdviceResult;
     try {
-      const parsed = JSON.parse(cleanedOutput);
-
-      // Validate the structure of the parsed response
-      if (
-        parsed &&
-        typeof parsed === "object" &&
-        Array.isArray(parsed.allocations) &&
-        typeof parsed.reasons === "string" &&
-        typeof parsed.estimatedValue === "number" &&
-        typeof parsed.warnings === "string"
-      ) {
-        // Validate each allocation
-        const validAllocations = parsed.allocations.every(
-          (allocation: any) =>
-            typeof allocation.token === "string" &&
-            typeof allocation.percentage === "number" &&
-            typeof allocation.amount === "number" &&
-            typeof allocation.tokenAddress === "string"
-        );
-
-        if (validAllocations) {
-          parsedOutput = parsed as InvestmentAdvice;
-        } else {
-          parsedOutput = {
-            error: "Invalid allocation structure in response",
-            raw: cleanedOutput,
-          };
-        }
-      } else {
-        parsedOutput = {
-          error: "Response missing required fields or invalid structure",
-          raw: cleanedOutput,
-        };
-      }
-    } catch (parseError) {
-      parsedOutput = {
-        error: "Failed to parse JSON response from AI",
-        raw: cleanedOutput,
-      };
+      result = await generateValidatedAdvice(advisor, {
+        amount,
+        baseToken,
+        date: currentDate,
+        riskProfile,
+      });
+    } catch (error) {
+      recordSuggestion({
+        ...historyEntry,
+        ...(error instanceof AdviceValidationError
+          ? { attempts: error.attempts, issues: error.issues }
+          : error instanceof RiskProfileError
+            ? { issues: error.issues }
+            : {}),
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      });
+      throw error;
     }
 
+    // Overwrite model-invented token addresses with registry addresses, and
+    // echo the profile so the advice records what it was generated for
+    const advice = {
+      ...result.advice,
+      allocations: resolveAllocationAddresses(
+        result.advice.allocations,
+        chainId
+      ),
+      riskProfile,
+    };
+    const record = recordSuggestion({
+      ...historyEntry,
+      attempts: result.attempts,
+      advice,
+    });
+
     // Return response to frontend (NO contract integration here)
     return NextResponse.json({
       success: true,
-      data: parsedOutput,
+      data: advice,
+      suggestionId: record.id,
     });
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof RiskProfileError) {
+      return NextResponse.json(
+        { success: false, error: error.message, issues: error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AdviceValidationError) {
+      console.error("AI response rejected:", error.issues, error.raw);
+      return NextResponse.json(
+        { success: false, error: error.message, issues: error.issues },
+        { status: 502 }
+      );
+    }
+
+    console.error("AI provider error:", error);
 
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error occurred";
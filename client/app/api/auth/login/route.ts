@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthIdentity } from "@/types";
+import { getChainId } from "@/lib/chain";
+import {
+  createSessionToken,
+  getSessionTtlSeconds,
+  isSessionAuthEnabled,
+  SESSION_COOKIE,
+} from "@/lib/auth/session";
+import {
+  roleForAddress,
+  SiweVerificationError,
+  verifySiweLogin,
+} from "@/lib/auth/siwe";
+
+interface LoginRequest {
+  message: string;
+  signature: string;
+}
+
+// POST /api/auth/login -> verify a signed sign-in message and start a session
+export async function POST(req: NextRequest) {
+  if (!isSessionAuthEnabled()) {
+    return NextResponse.json(
+      { success: false, error: "Wallet sign-in is not configured" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    let body: LoginRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON in request body" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      typeof body.message !== "string" ||
+      typeof body.signature !== "string"
+    ) {
+      return NextResponse.json(
+        { success: false, error: "message and signature are required" },
+        { status: 400 }
+      );
+    }
+
+    // The browser signs for the chain GET /api/contract reports
+    const address = verifySiweLogin(body.message, body.signature, {
+      domain: req.headers.get("host") ?? "",
+      chainId: await getChainId(),
+    });
+    const role = roleForAddress(address);
+    const identity: AuthIdentity = {
+      id: address.toLowerCase(),
+      role,
+      method: "session",
+    };
+
+    const response = NextResponse.json({ success: true, data: identity });
+    response.cookies.set(SESSION_COOKIE, createSessionToken(address, role), {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: getSessionTtlSeconds(),
+    });
+    return response;
+  } catch (error) {
+    if (error instanceof SiweVerificationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 401 }
+      );
+    }
+
+    console.error("Login error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
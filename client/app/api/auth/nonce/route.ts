@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { isSessionAuthEnabled } from "@/lib/auth/session";
+import { issueNonce } from "@/lib/auth/siwe";
+
+// GET /api/auth/nonce -> single-use nonce for a wallet sign-in message
+export async function GET() {
+  if (!isSessionAuthEnabled()) {
+    return NextResponse.json(
+      { success: false, error: "Wallet sign-in is not configured" },
+      { status: 503 }
+    );
+  }
+
+  return NextResponse.json({ success: true, data: { nonce: issueNonce() } });
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate } from "@/lib/auth";
+import { SESSION_COOKIE } from "@/lib/auth/session";
+
+// GET /api/auth/session -> the caller's identity, or null when signed out
+export async function GET(req: NextRequest) {
+  return NextResponse.json({ success: true, data: authenticate(req) });
+}
+
+// DELETE /api/auth/session -> sign out
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  BacktestResult,
+  RebalanceFrequency,
+  RebalanceRule,
+  SchemaIssue,
+  TokenAllocation,
+} from "@/types";
+import { AuthError, requireRole } from "@/lib/auth";
+import {
+  array,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+} from "@/lib/ai/schema";
+import {
+  backtestAllocations,
+  BacktestError,
+  DEFAULT_REBALANCE_RULE,
+} from "@/lib/backtest";
+import { MAX_BPS, percentageToBps } from "@/utils/allocationMath";
+
+interface RequestBody {
+  allocations: TokenAllocation[];
+  baseToken: string;
+  rule?: Partial<RebalanceRule>;
+  initialValue?: number; // defaults to the sum of allocation amounts
+  swapFeeBps?: number;
+  riskFreeRate?: number;
+  from?: string;
+  to?: string;
+}
+
+interface BacktestResponse {
+  success: boolean;
+  data?: BacktestResult;
+  error?: string;
+  issues?: SchemaIssue[];
+}
+
+const FREQUENCIES: RebalanceFrequency[] = [
+  "daily",
+  "weekly",
+  "monthly",
+  "never",
+];
+
+// Typical AMM pool fee, e.g. Uniswap v2's 0.3%
+const DEFAULT_SWAP_FEE_BPS = 30;
+
+const day = string({
+  pattern: /^\d{4}-\d{2}-\d{2}$/,
+  patternMessage: "Must be a YYYY-MM-DD date",
+});
+
+const requestSchema = object<RequestBody>({
+  allocations: array(
+    object({
+      token: string({ nonEmpty: true }),
+      percentage: number({ min: 0, max: 100 }),
+      amount: number({ min: 0 }),
+      tokenAddress: string(),
+    }),
+    { minItems: 1, maxItems: 50 }
+  ),
+  baseToken: string({ nonEmpty: true }),
+  rule: optional(
+    object({
+      frequency: optional(oneOf(FREQUENCIES)),
+      thresholdBps: optional(number({ min: 0, max: 5000 })),
+    })
+  ),
+  initialValue: optional(number({ min: 0, exclusiveMin: true })),
+  swapFeeBps: optional(number({ min: 0, max: 1000 })),
+  riskFreeRate: optional(number({ min: -1, max: 1 })),
+  from: optional(day),
+  to: optional(day),
+});
+
+// POST /api/backtest -> return, volatility, drawdown, Sharpe and turnover of
+// an allocation over the local historical price files
+export async function POST(
+  req: NextRequest
+): Promise<NextResponse<BacktestResponse>> {
+  try {
+    requireRole(req, "viewer");
+
+    let body: RequestBody;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON in request body" },
+        { status: 400 }
+      );
+    }
+
+    const issues = requestSchema.validate(body, "$");
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { success: false, error: "Invalid backtest request", issues },
+        { status: 400 }
+      );
+    }
+
+    // Weights are used as given, so they must total 100% to within the 1 bp
+    // that /api/contract tolerates
+    const totalBps = body.allocations.reduce(
+      (sum, a) => sum + percentageToBps(a.percentage),
+      0
+    );
+    if (Math.abs(totalBps - MAX_BPS) > 1) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid backtest request",
+          issues: [
+            {
+              path: "$.allocations",
+              message: `Percentages total ${(totalBps / 100).toFixed(2)}%. Must equal 100%`,
+            },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const totalAmount = body.allocations.reduce((sum, a) => sum + a.amount, 0);
+    const data = backtestAllocations(body.allocations, body.baseToken, {
+      rule: { ...DEFAULT_REBALANCE_RULE, ...body.rule },
+      initialValue: body.initialValue ?? (totalAmount > 0 ? totalAmount : 1),
+      swapFeeBps: body.swapFeeBps ?? DEFAULT_SWAP_FEE_BPS,
+      riskFreeRate: body.riskFreeRate ?? 0,
+      from: body.from,
+      to: body.to,
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof BacktestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 422 }
+      );
+    }
+
+    console.error("Backtest error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
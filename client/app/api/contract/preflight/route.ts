@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { StrategyConstraints, TokenAllocation, ValidationError } from "@/types";
+import { fetchStrategyConstraints } from "@/lib/contracts/basketStrategy";
+import { validateAllocations } from "@/utils/validators";
+
+interface PreflightRequest {
+  allocations: TokenAllocation[];
+  totalAmount?: number;
+}
+
+interface PreflightResponse {
+  success: boolean;
+  data?: {
+    constraints: StrategyConstraints;
+    errors: ValidationError[];
+  };
+  error?: string;
+}
+
+// POST /api/contract/preflight -> per-row errors setAllocations would revert on
+export async function POST(
+  req: NextRequest
+): Promise<NextResponse<PreflightResponse>> {
+  let body: PreflightRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Invalid JSON in request body" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!body.allocations || !Array.isArray(body.allocations)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid allocations array" },
+        { status: 400 }
+      );
+    }
+
+    const constraints = await fetchStrategyConstraints(
+      body.allocations.map((allocation) => allocation.tokenAddress)
+    );
+    const errors = validateAllocations(
+      body.allocations,
+      body.totalAmount ?? 0,
+      constraints
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { constraints, errors },
+    });
+  } catch (error) {
+    console.error("Preflight check error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,69 @@
 import { NextRequest, NextResponse } from "next/server";
-import { ethers } from "ethers";
-
-interface TokenAllocation {
-  token: string;
-  percentage: number;
-  amount: number;
-  tokenAddress: string;
-}
+import { ContractConfig, TokenAllocation } from "@/types";
+import { toContractAllocations } from "@/utils/allocationMath";
+import { getChainId } from "@/lib/chain";
+import {
+  getBasketStrategy,
+  getServerSigner,
+  isServerSigningEnabled,
+} from "@/lib/contracts";
+import { getContractAddresses } from "@/lib/contracts/manifest";
+import { simulateSetAllocations } from "@/lib/contracts/simulation";
+import { AuthError, requireRole } from "@/lib/auth";
+import { enqueueTransaction } from "@/lib/jobs";
+import { withIdempotency } from "@/lib/idempotency";
+import { validateAllocations } from "@/utils/validators";
 
 interface ContractAllocationRequest {
   allocations: TokenAllocation[];
   totalAmount: number;
   baseToken: string;
+  simulate?: boolean;
+}
+
+// GET /api/contract -> public contract configuration for browser wallets
+export async function GET() {
+  try {
+    const basketStrategy = await getBasketStrategy();
+    const data: ContractConfig = {
+      chainId: await getChainId(),
+      basketStrategyAddress: await basketStrategy.getAddress(),
+      vaultAddress: (await getContractAddresses()).vault,
+      serverSigningEnabled: isServerSigningEnabled(),
+    };
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("Contract config error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
 }
 
 export async function POST(req: NextRequest) {
   try {
-    const body: ContractAllocationRequest = await req.json();
+    // Advisors may dry-run allocations; only operators may send them
+    const identity = requireRole(req, "advisor");
+
+    let body: ContractAllocationRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON in request body" },
+        { status: 400 }
+      );
+    }
+
+    if (!body.simulate) {
+      requireRole(req, "operator");
+    }
 
     // Validate input
     if (!body.allocations || !Array.isArray(body.allocations)) {
@@ -33,61 +80,93 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Set up blockchain connection
-    const provider = new ethers.JsonRpcProvider(
-      process.env.RPC_URL || "http://localhost:8545"
-    );
-    const privateKey = process.env.PRIVATE_KEY;
+    // The strategy stores exactly what it is sent, so a total off 100% is
+    // rejected rather than rescaled
+    const errors = validateAllocations(body.allocations, body.totalAmount);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: errors.map((error) => error.message).join("; "),
+          errors,
+        },
+        { status: 400 }
+      );
+    }
 
-    if (!privateKey) {
+    // Broadcasting with the owner key is opt-in; users sign from their wallet
+    if (!body.simulate && !isServerSigningEnabled()) {
       return NextResponse.json(
-        { success: false, error: "Private key not configured" },
-        { status: 500 }
+        {
+          success: false,
+          error:
+            "Server-side signing is disabled. Send setAllocations from the strategy owner's wallet.",
+        },
+        { status: 403 }
       );
     }
 
-    const wallet = new ethers.Wallet(privateKey, provider);
-    const BASKET_STRATEGY_ADDRESS = process.env.BASKET_STRATEGY_ADDRESS;
+    // Convert allocations to contract format; the validated total is within
+    // 1 bp of 100%, and that residue is apportioned by largest remainder
+    const contractAllocations = toContractAllocations(body.allocations);
 
-    if (!BASKET_STRATEGY_ADDRESS) {
-      return NextResponse.json(
-        { success: false, error: "Contract addresses not configured" },
-        { status: 500 }
+    // Dry run: report whether setAllocations would succeed without sending it.
+    // Runs read-only as the strategy owner, so it needs no server key.
+    if (body.simulate) {
+      const readOnlyStrategy = await getBasketStrategy();
+      const simulation = await simulateSetAllocations(
+        readOnlyStrategy,
+        contractAllocations,
+        await readOnlyStrategy.owner()
       );
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...simulation,
+          simulated: true,
+          totalAmount: body.totalAmount,
+        },
+      });
     }
 
-    // Contract ABI
-    const basketStrategyABI = [
-      "function setAllocations((address token, uint256 percentage)[] memory newAllocations) external",
-      "function totalAssets() external view returns (uint256)",
-      "function getAllocations() external view returns ((address token, uint256 percentage)[] memory)",
-    ];
-
-    const basketStrategy = new ethers.Contract(
-      BASKET_STRATEGY_ADDRESS,
-      basketStrategyABI,
-      wallet
-    );
+    // Connect to the strategy with the server signer
+    const basketStrategy = await getBasketStrategy(getServerSigner());
 
-    // Convert allocations to contract format
-    const contractAllocations = body.allocations.map((allocation) => ({
-      token: allocation.tokenAddress,
-      percentage: Math.floor(allocation.percentage * 100), // Convert to basis points
-    }));
-
-    // Send transaction to contract
-    const tx = await basketStrategy.setAllocations(contractAllocations);
-    await tx.wait();
-
-    return NextResponse.json({
-      success: true,
-      data: {
-        transactionHash: tx.hash,
-        allocations: contractAllocations,
-        totalAmount: body.totalAmount,
-      },
-    });
+    // Send in the background; clients poll /api/jobs/<id> until it is final.
+    // A repeated Idempotency-Key returns the original job instead of sending
+    // setAllocations again.
+    return await withIdempotency(
+      req,
+      `${identity.id}:contract`,
+      body,
+      async () => {
+        const job = enqueueTransaction("setAllocations", () =>
+          basketStrategy.setAllocations.populateTransaction(contractAllocations)
+        );
+
+        return NextResponse.json(
+          {
+            success: true,
+            data: {
+              jobId: job.id,
+              status: job.status,
+              allocations: contractAllocations,
+              totalAmount: body.totalAmount,
+            },
+          },
+          { status: 202 }
+        );
+      }
+    );
   } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error("Contract interaction error:", error);
     return NextResponse.json(
       {
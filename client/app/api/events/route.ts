@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { IndexedContract, IndexedEvent } from "@/types";
+import { AuthError, requireRole } from "@/lib/auth";
+import { startIndexer } from "@/lib/indexer";
+import { EventQuery, queryEvents } from "@/lib/indexer/db";
+
+interface EventsResponse {
+  success: boolean;
+  data?: IndexedEvent[];
+  error?: string;
+}
+
+const CONTRACTS: IndexedContract[] = [
+  "vault",
+  "basketStrategy",
+  "simpleStrategy",
+];
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+// Parse a non-negative integer query parameter; null when present but invalid
+function parseBlockParam(value: string | null): number | undefined | null {
+  if (value === null) return undefined;
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+// GET /api/events?contract=&event=&address=&txHash=&fromBlock=&toBlock=&before=&limit=
+// -> indexed contract events, newest first. `address` matches any address
+// argument (owner, receiver, sender, token...). Pass the last id as `before`
+// to fetch the next page.
+export async function GET(
+  req: NextRequest
+): Promise<NextResponse<EventsResponse>> {
+  try {
+    requireRole(req, "viewer");
+    startIndexer();
+
+    const params = req.nextUrl.searchParams;
+    const query: EventQuery = { limit: DEFAULT_LIMIT };
+
+    const contract = params.get("contract");
+    if (contract !== null) {
+      if (!CONTRACTS.includes(contract as IndexedContract)) {
+        return badRequest(`contract must be one of ${CONTRACTS.join(", ")}`);
+      }
+      query.contract = contract as IndexedContract;
+    }
+
+    const event = params.get("event");
+    if (event !== null) {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(event)) {
+        return badRequest("event must be an event name");
+      }
+      query.event = event;
+    }
+
+    const address = params.get("address");
+    if (address !== null) {
+      if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+        return badRequest("Invalid Ethereum address format");
+      }
+      query.address = address;
+    }
+
+    const txHash = params.get("txHash");
+    if (txHash !== null) {
+      if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+        return badRequest("txHash must be a 32-byte hex string");
+      }
+      query.transactionHash = txHash;
+    }
+
+    for (const key of ["fromBlock", "toBlock", "before"] as const) {
+      const value = parseBlockParam(params.get(key));
+      if (value === null) {
+        return badRequest(`${key} must be a non-negative integer`);
+      }
+      query[key] = value;
+    }
+
+    const limit = parseBlockParam(params.get("limit"));
+    if (
+      limit === null ||
+      (limit !== undefined && (limit < 1 || limit > MAX_LIMIT))
+    ) {
+      return badRequest(`limit must be between 1 and ${MAX_LIMIT}`);
+    }
+    if (limit !== undefined) query.limit = limit;
+
+    return NextResponse.json({ success: true, data: queryEvents(query) });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Events query error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function badRequest(error: string): NextResponse<EventsResponse> {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SchemaIssue, SuggestionRecord, SuggestionUpdate } from "@/types";
+import { AuthError, requireRole } from "@/lib/auth";
+import { hasRole } from "@/lib/auth/roles";
+import {
+  getSuggestion,
+  suggestionUpdateSchema,
+  updateSuggestion,
+} from "@/lib/history";
+
+interface SuggestionResponse {
+  success: boolean;
+  data?: SuggestionRecord;
+  error?: string;
+  issues?: SchemaIssue[];
+}
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof AuthError) {
+    return NextResponse.json<SuggestionResponse>(
+      { success: false, error: error.message },
+      { status: error.status }
+    );
+  }
+
+  console.error(`${action} error:`, error);
+  return NextResponse.json<SuggestionResponse>(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    },
+    { status: 500 }
+  );
+}
+
+function notFound() {
+  return NextResponse.json<SuggestionResponse>(
+    { success: false, error: "Suggestion not found" },
+    { status: 404 }
+  );
+}
+
+// GET /api/history/<id> -> one suggestion with its edits and outcome
+export async function GET(
+  req: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<SuggestionResponse>> {
+  const { id } = await params;
+
+  try {
+    requireRole(req, "viewer");
+
+    const data = getSuggestion(id);
+    return data ? NextResponse.json({ success: true, data }) : notFound();
+  } catch (error) {
+    return errorResponse(error, "Suggestion lookup");
+  }
+}
+
+// PATCH /api/history/<id> {editedAllocations?, validationErrors?, simulation?,
+// execution?} -> record what the editor did with the suggestion. Only the
+// advisor who requested it, or an operator, may update a record.
+export async function PATCH(
+  req: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<SuggestionResponse>> {
+  const { id } = await params;
+
+  try {
+    const identity = requireRole(req, "advisor");
+
+    const record = getSuggestion(id);
+    if (!record) return notFound();
+
+    if (
+      record.requestedBy !== identity.id &&
+      !hasRole(identity.role, "operator")
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Only the requester may update a suggestion" },
+        { status: 403 }
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON in request body" },
+        { status: 400 }
+      );
+    }
+
+    const issues = suggestionUpdateSchema.validate(body, "$");
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { success: false, error: "Invalid suggestion update", issues },
+        { status: 400 }
+      );
+    }
+
+    const data = updateSuggestion(id, body as SuggestionUpdate);
+    return data ? NextResponse.json({ success: true, data }) : notFound();
+  } catch (error) {
+    return errorResponse(error, "Suggestion update");
+  }
+}
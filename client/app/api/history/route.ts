@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SuggestionRecord } from "@/types";
+import { AuthError, requireRole } from "@/lib/auth";
+import { listSuggestions } from "@/lib/history";
+
+interface HistoryResponse {
+  success: boolean;
+  data?: SuggestionRecord[];
+  error?: string;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// GET /api/history?limit=&before= -> past AI suggestions, newest first. Pass
+// the last id as `before` to fetch the next page.
+export async function GET(
+  req: NextRequest
+): Promise<NextResponse<HistoryResponse>> {
+  try {
+    requireRole(req, "viewer");
+
+    const params = req.nextUrl.searchParams;
+    const limitParam = params.get("limit");
+    const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `limit must be between 1 and ${MAX_LIMIT}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = listSuggestions(limit, params.get("before") ?? undefined);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Suggestion history error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { IndexerStatus } from "@/types";
+import { AuthError, requireRole } from "@/lib/auth";
+import { getIndexerStatus, startIndexer } from "@/lib/indexer";
+
+interface IndexerStatusResponse {
+  success: boolean;
+  data?: IndexerStatus;
+  error?: string;
+}
+
+// GET /api/indexer/status -> indexed block, chain head and last sync error
+export async function GET(
+  req: NextRequest
+): Promise<NextResponse<IndexerStatusResponse>> {
+  try {
+    requireRole(req, "viewer");
+    startIndexer();
+
+    return NextResponse.json({ success: true, data: await getIndexerStatus() });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Indexer status error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
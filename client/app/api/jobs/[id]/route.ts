@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TransactionJob } from "@/types";
+import { AuthError, requireRole } from "@/lib/auth";
+import { getJob } from "@/lib/jobs";
+
+interface JobResponse {
+  success: boolean;
+  data?: TransactionJob;
+  error?: string;
+}
+
+// GET /api/jobs/<id> -> status, confirmations and receipt of a transaction job
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<JobResponse>> {
+  const { id } = await params;
+
+  try {
+    requireRole(req, "viewer");
+
+    const data = await getJob(id);
+    if (!data) {
+      return NextResponse.json(
+        { success: false, error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Job status error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
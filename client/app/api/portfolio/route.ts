@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PortfolioSnapshot } from "@/types";
+import { AuthError, requireRole } from "@/lib/auth";
+import { fetchPortfolio } from "@/lib/contracts/portfolio";
+
+interface PortfolioResponse {
+  success: boolean;
+  data?: PortfolioSnapshot;
+  error?: string;
+}
+
+// GET /api/portfolio -> current vault and strategy holdings read from chain
+export async function GET(
+  req: NextRequest
+): Promise<NextResponse<PortfolioResponse>> {
+  try {
+    requireRole(req, "viewer");
+
+    const data = await fetchPortfolio();
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Portfolio error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError, requireRole } from "@/lib/auth";
+import { withIdempotency } from "@/lib/idempotency";
+import { replaceTransaction, SignerError } from "@/lib/signer";
+
+interface ReplaceRequest {
+  action: "speed-up" | "cancel";
+}
+
+// POST /api/signer/pending/<nonce> { action } -> fee-bumped speed-up or cancel
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ nonce: string }> }
+) {
+  const { nonce } = await params;
+
+  try {
+    const identity = requireRole(req, "operator");
+
+    const parsedNonce = Number(nonce);
+    if (!Number.isInteger(parsedNonce) || parsedNonce < 0) {
+      return NextResponse.json(
+        { success: false, error: "Nonce must be a non-negative integer" },
+        { status: 400 }
+      );
+    }
+
+    let body: ReplaceRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON in request body" },
+        { status: 400 }
+      );
+    }
+
+    if (body.action !== "speed-up" && body.action !== "cancel") {
+      return NextResponse.json(
+        { success: false, error: 'Action must be "speed-up" or "cancel"' },
+        { status: 400 }
+      );
+    }
+
+    return await withIdempotency(
+      req,
+      `${identity.id}:signer:${parsedNonce}`,
+      body,
+      async () => {
+        const data = await replaceTransaction(parsedNonce, body.action);
+        return NextResponse.json({ success: true, data });
+      }
+    );
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof SignerError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error("Transaction replacement error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthError, requireRole } from "@/lib/auth";
+import { getPendingTransactions, isStuck } from "@/lib/signer";
+
+// GET /api/signer/pending -> in-flight server transactions, flagging stuck ones
+export async function GET(req: NextRequest) {
+  try {
+    requireRole(req, "operator");
+
+    const data = getPendingTransactions().map((tx) => ({
+      ...tx,
+      stuck: isStuck(tx),
+    }));
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error("Pending transactions error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TokenInfo } from "@/types";
+import { fetchTokenMetadata, TokenMetadataError } from "@/lib/tokens/onchain";
+
+interface TokenMetadataResponse {
+  success: boolean;
+  data?: TokenInfo;
+  error?: string;
+}
+
+// GET /api/tokens/0x... -> ERC20 metadata read from the configured RPC
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+): Promise<NextResponse<TokenMetadataResponse>> {
+  const { address } = await params;
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return NextResponse.json(
+      { success: false, error: "Invalid Ethereum address format" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const data = await fetchTokenMetadata(address);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof TokenMetadataError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.reason === "no-code" ? 404 : 422 }
+      );
+    }
+
+    console.error("Token metadata error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error
+            ? `RPC provider unavailable: ${error.message}`
+            : "RPC provider unavailable",
+      },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getActiveChainId } from "@/lib/chain";
+import { getTokenCategories } from "@/lib/ai/riskProfile";
+
+interface CategoriesResponse {
+  success: boolean;
+  data?: string[];
+  error?: string;
+}
+
+// GET /api/tokens/categories -> preferred categories /api/ai/suggest accepts,
+// i.e. the registry tags of the active chain
+export async function GET(): Promise<NextResponse<CategoriesResponse>> {
+  try {
+    const data = getTokenCategories(await getActiveChainId());
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("Token categories error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
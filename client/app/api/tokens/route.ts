@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { RegistryToken } from "@/types";
+import { getActiveChainId } from "@/lib/chain";
+import { findTokenByAddress, searchTokens } from "@/lib/tokens/registry";
+
+interface TokensResponse {
+  success: boolean;
+  data?: RegistryToken | RegistryToken[];
+  error?: string;
+}
+
+// GET /api/tokens?chainId=1&q=usd&tag=stablecoin  -> matching tokens
+// GET /api/tokens?chainId=1&address=0x...        -> single token lookup
+// chainId defaults to the chain the contract routes resolve deployments for
+export async function GET(
+  req: NextRequest
+): Promise<NextResponse<TokensResponse>> {
+  try {
+    const params = req.nextUrl.searchParams;
+
+    const chainIdParam = params.get("chainId");
+    const chainId = chainIdParam
+      ? parseInt(chainIdParam, 10)
+      : await getActiveChainId();
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+      return NextResponse.json(
+        { success: false, error: "chainId must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    const address = params.get("address");
+    if (address !== null) {
+      if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+        return NextResponse.json(
+          { success: false, error: "Invalid Ethereum address format" },
+          { status: 400 }
+        );
+      }
+
+      const token = findTokenByAddress(address, chainId);
+      if (!token) {
+        return NextResponse.json(
+          { success: false, error: "Token not found in registry" },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({ success: true, data: token });
+    }
+
+    const tokens = searchTokens(
+      params.get("q") ?? "",
+      chainId,
+      params.get("tag") ?? undefined
+    );
+
+    return NextResponse.json({ success: true, data: tokens });
+  } catch (error) {
+    console.error("Token registry error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      { status: 500 }
+    );
+  }
+}
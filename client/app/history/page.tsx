@@ -0,0 +1,18 @@
+import Link from "next/link";
+import { SuggestionHistory } from "@/components/history";
+
+export default function HistoryPage() {
+  return (
+    <main className="min-h-screen bg-gray-100 py-8">
+      <div className="container mx-auto px-4">
+        <div className="mb-6">
+          <Link href="/" className="text-blue-600 hover:underline">
+            ← Back to the advisor
+          </Link>
+        </div>
+
+        <SuggestionHistory />
+      </div>
+    </main>
+  );
+}
@@ -1,6 +1,15 @@
+import Link from "next/link";
 import { AISuggestionForm } from "@/components/ai-suggestion";
+import { VaultPanel } from "@/components/vault";
+
+interface HomeProps {
+  searchParams: Promise<{ suggestion?: string | string[] }>;
+}
+
+export default async function Home({ searchParams }: HomeProps) {
+  // /?suggestion=<id> reopens a past suggestion from the history page
+  const { suggestion } = await searchParams;
 
-export default function Home() {
   return (
     <main className="min-h-screen bg-gray-100 py-8">
       <div className="container mx-auto px-4">
@@ -13,9 +22,23 @@ export default function Home() {
             Get personalized investment advice powered by advanced AI
             algorithms.
           </p>
+          <Link
+            href="/history"
+            className="inline-block mt-4 text-blue-600 hover:underline"
+          >
+            View suggestion history
+          </Link>
         </div>
 
-        <AISuggestionForm />
+        <AISuggestionForm
+          initialSuggestionId={
+            typeof suggestion === "string" ? suggestion : undefined
+          }
+        />
+
+        <div className="mt-8">
+          <VaultPanel />
+        </div>
       </div>
     </main>
   );
@@ -1,49 +1,77 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { formatEther } from "ethers";
 import { useContractInteraction } from "@/hooks/useContractInteraction";
+import { useAuth } from "@/hooks/useAuth";
+import AllocationDiff from "./AllocationDiff";
+import BacktestPanel from "./BacktestPanel";
+import {
+  APIResponse,
+  InvestmentAdvice,
+  InvestmentHorizon,
+  RegistryToken,
+  RiskTolerance,
+  StrategyConstraints,
+  SuggestionUpdate,
+  TokenAllocation,
+  TokenInfo,
+  ValidationError,
+} from "@/types";
+import { validateAllocations as validateAllocationRules } from "@/utils/validators";
+import {
+  amountForPercentage,
+  normalizeAllocations,
+  percentageForAmount,
+} from "@/utils/allocationMath";
+import { fetchSuggestion, updateSuggestionHistory } from "@/lib/history/client";
 
-// Type definitions matching the API
-interface TokenAllocation {
-  token: string;
-  percentage: number;
-  amount: number;
-  tokenAddress: string;
-}
+const commonTokens = ["USDT", "USDC", "ETH", "BTC", "BNB", "MATIC"];
 
-interface InvestmentAdvice {
-  allocations: TokenAllocation[];
-  reasons: string;
-  estimatedValue: number;
-  warnings: string;
-}
+const riskTolerances: RiskTolerance[] = [
+  "conservative",
+  "moderate",
+  "aggressive",
+];
 
-interface APIResponse {
-  success: boolean;
-  data?: InvestmentAdvice | { error: string; raw: string };
-  error?: string;
-}
+const horizons: { value: InvestmentHorizon; label: string }[] = [
+  { value: "short", label: "Short term (< 3 months)" },
+  { value: "medium", label: "Medium term (3-12 months)" },
+  { value: "long", label: "Long term (> 1 year)" },
+];
 
-// Enhanced validation types
-interface ValidationError {
-  index: number;
-  field: string;
-  message: string;
-}
+// Decimals of each base token, used for exact per-allocation amounts
+const baseTokenDecimals: Record<string, number> = {
+  USDT: 6,
+  USDC: 6,
+  ETH: 18,
+  BTC: 8,
+  BNB: 18,
+  MATIC: 18,
+};
 
-interface TokenInfo {
-  symbol: string;
-  name: string;
-  decimals: number;
-  isValid: boolean;
+interface AISuggestionFormProps {
+  // History record to reopen in the editor, e.g. from /?suggestion=<id>
+  initialSuggestionId?: string;
 }
 
-export default function AISuggestionForm() {
+export default function AISuggestionForm({
+  initialSuggestionId,
+}: AISuggestionFormProps) {
   const [amount, setAmount] = useState<string>("");
   const [baseToken, setBaseToken] = useState<string>("USDT");
+  const [riskTolerance, setRiskTolerance] = useState<RiskTolerance>("moderate");
+  const [horizon, setHorizon] = useState<InvestmentHorizon>("short");
+  const [maxSingleAsset, setMaxSingleAsset] = useState<string>("100");
+  const [excludedTokens, setExcludedTokens] = useState<string>("");
+  const [preferredCategories, setPreferredCategories] = useState<string[]>([]);
+  // Token registry tags the advisor can be asked to favour, as the server
+  // validates them
+  const [tokenCategories, setTokenCategories] = useState<string[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [suggestion, setSuggestion] = useState<InvestmentAdvice | null>(null);
   const [error, setError] = useState<string>("");
+  const [suggestionId, setSuggestionId] = useState<string | null>(null);
 
   // Enhanced state management
   const [editableAllocations, setEditableAllocations] = useState<
@@ -57,13 +85,115 @@ export default function AISuggestionForm() {
     Record<number, TokenInfo>
   >({});
   const [isValidating, setIsValidating] = useState<Record<number, boolean>>({});
+  const [strategyConstraints, setStrategyConstraints] =
+    useState<StrategyConstraints | null>(null);
 
   const {
     sendAllocationsToContract,
+    simulateAllocations,
     loading: contractLoading,
     result: contractResult,
+    simulating,
+    simulation,
+    mode: signingMode,
+    account,
+    job: contractJob,
   } = useContractInteraction();
 
+  const { identity, signIn, signOut, signingIn, error: authError } = useAuth();
+
+  // Best effort: the history is a record, so failing to save must not block
+  // editing or sending
+  const saveToHistory = (update: SuggestionUpdate) => {
+    if (!suggestionId) return;
+    updateSuggestionHistory(suggestionId, update).catch((err) =>
+      console.error("Failed to update suggestion history:", err)
+    );
+  };
+
+  // Offer only the categories /api/ai/suggest accepts on the server's chain
+  useEffect(() => {
+    const loadCategories = async () => {
+      try {
+        const response = await fetch("/api/tokens/categories");
+        const data = await response.json();
+        if (!data.success) throw new Error(data.error);
+        setTokenCategories(data.data);
+      } catch (err) {
+        console.error("Failed to load token categories:", err);
+      }
+    };
+
+    loadCategories();
+  }, []);
+
+  // Reopen a past suggestion with the allocations as last edited
+  useEffect(() => {
+    if (!initialSuggestionId) return;
+
+    const openSuggestion = async () => {
+      try {
+        const record = await fetchSuggestion(initialSuggestionId);
+        if (!record.advice) {
+          throw new Error(
+            `This suggestion failed and has nothing to edit: ${record.error}`
+          );
+        }
+
+        setAmount(String(record.input.amount));
+        setBaseToken(record.input.baseToken);
+        const profile = record.input.riskProfile;
+        if (profile) {
+          setRiskTolerance(profile.riskTolerance);
+          setHorizon(profile.horizon);
+          setMaxSingleAsset(String(profile.maxSingleAssetPercent));
+          setExcludedTokens(profile.excludedTokens.join(", "));
+          setPreferredCategories(profile.preferredCategories);
+        }
+        setSuggestion(record.advice);
+        setEditableAllocations(
+          (record.editedAllocations ?? record.advice.allocations).map(
+            (allocation) => ({ ...allocation })
+          )
+        );
+        setSuggestionId(record.id);
+        setIsEditing(true);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to load suggestion"
+        );
+      }
+    };
+
+    openSuggestion();
+  }, [initialSuggestionId]);
+
+  // Record the outcome of each send once it is final
+  const reportedResult = useRef(contractResult);
+  useEffect(() => {
+    if (
+      contractLoading ||
+      !contractResult ||
+      reportedResult.current === contractResult
+    ) {
+      return;
+    }
+    reportedResult.current = contractResult;
+    if (!suggestionId) return;
+
+    updateSuggestionHistory(suggestionId, {
+      execution: {
+        status: contractResult.error ? "failed" : "confirmed",
+        signingMode,
+        transactionHash: contractResult.transactionHash,
+        error: contractResult.error,
+        executedAt: new Date().toISOString(),
+      },
+    }).catch((err) =>
+      console.error("Failed to record transaction outcome:", err)
+    );
+  }, [contractLoading, contractResult, signingMode, suggestionId]);
+
   // Token validation function
   const validateTokenAddress = async (address: string, index: number) => {
     if (!address || address.length !== 42 || !address.startsWith("0x")) {
@@ -77,38 +207,40 @@ export default function AISuggestionForm() {
     setIsValidating((prev) => ({ ...prev, [index]: true }));
 
     try {
-      // Mock token validation - replace with actual blockchain call
-      const mockTokens: Record<string, TokenInfo> = {
-        "0xdAC17F958D2ee523a2206206994597C13D831ec7": {
-          symbol: "USDT",
-          name: "Tether USD",
-          decimals: 6,
-          isValid: true,
-        },
-        "0xA0b86a33E6441fb0fb5c8dc0E0EF79b2AD1b8B1": {
-          symbol: "USDC",
-          name: "USD Coin",
-          decimals: 6,
-          isValid: true,
-        },
-        "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2": {
-          symbol: "WETH",
-          name: "Wrapped Ether",
-          decimals: 18,
-          isValid: true,
-        },
-      };
-
-      // Simulate API delay
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      const tokenInfo = mockTokens[address] || {
+      // Prefer live chain data; fall back to the static registry only when
+      // the RPC node is unreachable
+      let tokenInfo: TokenInfo = {
         symbol: "UNKNOWN",
         name: "Unknown Token",
         decimals: 18,
         isValid: false,
       };
 
+      const chainResponse = await fetch(
+        `/api/tokens/${encodeURIComponent(address)}`
+      );
+      if (chainResponse.status === 503) {
+        const response = await fetch(
+          `/api/tokens?address=${encodeURIComponent(address)}`
+        );
+        const data: { success: boolean; data?: RegistryToken } =
+          await response.json();
+        if (data.success && data.data) {
+          tokenInfo = {
+            symbol: data.data.symbol,
+            name: data.data.name,
+            decimals: data.data.decimals,
+            isValid: true,
+          };
+        }
+      } else {
+        const data: { success: boolean; data?: TokenInfo } =
+          await chainResponse.json();
+        if (data.success && data.data) {
+          tokenInfo = data.data;
+        }
+      }
+
       setTokenValidation((prev) => ({
         ...prev,
         [index]: tokenInfo,
@@ -123,85 +255,38 @@ export default function AISuggestionForm() {
     }
   };
 
-  // Enhanced validation
+  // Enhanced validation: shared rules plus per-row token verification
   const validateAllocations = (): ValidationError[] => {
-    const errors: ValidationError[] = [];
-    let totalPercentage = 0;
+    const errors = validateAllocationRules(
+      editableAllocations,
+      parseFloat(amount),
+      strategyConstraints ?? undefined
+    );
 
     editableAllocations.forEach((allocation, index) => {
-      // Token name validation
-      if (!allocation.token.trim()) {
-        errors.push({
-          index,
-          field: "token",
-          message: "Token name is required",
-        });
-      }
-
-      // Percentage validation
-      if (allocation.percentage <= 0) {
-        errors.push({
-          index,
-          field: "percentage",
-          message: "Percentage must be greater than 0",
-        });
-      } else if (allocation.percentage > 100) {
-        errors.push({
-          index,
-          field: "percentage",
-          message: "Percentage cannot exceed 100%",
-        });
-      }
-
-      // Token address validation
-      if (!allocation.tokenAddress.trim()) {
-        errors.push({
-          index,
-          field: "tokenAddress",
-          message: "Token address is required",
-        });
-      } else if (!/^0x[a-fA-F0-9]{40}$/.test(allocation.tokenAddress)) {
-        errors.push({
-          index,
-          field: "tokenAddress",
-          message: "Invalid Ethereum address format",
-        });
-      } else if (tokenValidation[index] && !tokenValidation[index].isValid) {
-        errors.push({
-          index,
-          field: "tokenAddress",
-          message: "Token address not found or invalid",
-        });
-      }
+      const tokenInfo = tokenValidation[index];
+      if (!tokenInfo) return;
 
-      // Token symbol mismatch
-      if (tokenValidation[index] && tokenValidation[index].isValid) {
-        if (
-          allocation.token.toUpperCase() !==
-          tokenValidation[index].symbol.toUpperCase()
-        ) {
+      if (!tokenInfo.isValid) {
+        if (/^0x[a-fA-F0-9]{40}$/.test(allocation.tokenAddress)) {
           errors.push({
             index,
-            field: "token",
-            message: `Token symbol mismatch. Expected: ${tokenValidation[index].symbol}`,
+            field: "tokenAddress",
+            message: "Token address not found or invalid",
           });
         }
+      } else if (
+        allocation.token.toUpperCase() !== tokenInfo.symbol.toUpperCase()
+      ) {
+        // Token symbol mismatch
+        errors.push({
+          index,
+          field: "token",
+          message: `Token symbol mismatch. Expected: ${tokenInfo.symbol}`,
+        });
       }
-
-      totalPercentage += allocation.percentage;
     });
 
-    // Total percentage validation
-    if (Math.abs(totalPercentage - 100) > 0.01) {
-      errors.push({
-        index: -1,
-        field: "total",
-        message: `Total percentage is ${totalPercentage.toFixed(
-          2
-        )}%. Must equal 100%`,
-      });
-    }
-
     return errors;
   };
 
@@ -211,7 +296,7 @@ export default function AISuggestionForm() {
       const errors = validateAllocations();
       setValidationErrors(errors);
     }
-  }, [editableAllocations, tokenValidation, isEditing]);
+  }, [editableAllocations, tokenValidation, strategyConstraints, isEditing]);
 
   // Validate token address on change
   useEffect(() => {
@@ -222,12 +307,52 @@ export default function AISuggestionForm() {
     });
   }, [editableAllocations.map((a) => a.tokenAddress).join(",")]);
 
+  // Limits depend only on the tokens, so the request below reads the latest
+  // rows from a ref and refetches only when a token address changes
+  const latestAllocations = useRef(editableAllocations);
+  useEffect(() => {
+    latestAllocations.current = editableAllocations;
+  }, [editableAllocations]);
+  const tokenAddressKey = editableAllocations
+    .map((allocation) => allocation.tokenAddress)
+    .join(",");
+
+  // Load AIBasketStrategy limits for the current tokens
+  useEffect(() => {
+    const allocations = latestAllocations.current;
+    if (allocations.length === 0) {
+      setStrategyConstraints(null);
+      return;
+    }
+
+    const loadConstraints = async () => {
+      try {
+        const response = await fetch("/api/contract/preflight", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ allocations }),
+        });
+        const data = await response.json();
+        // Without a reachable strategy, fall back to local checks only
+        setStrategyConstraints(data.success ? data.data.constraints : null);
+      } catch (err) {
+        console.error("Failed to load strategy constraints:", err);
+        setStrategyConstraints(null);
+      }
+    };
+
+    loadConstraints();
+  }, [tokenAddressKey]);
+
   // Get AI recommendation
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError("");
     setSuggestion(null);
+    setSuggestionId(null);
     setEditableAllocations([]);
     setIsEditing(false);
     setValidationErrors([]);
@@ -242,20 +367,34 @@ export default function AISuggestionForm() {
         body: JSON.stringify({
           amount: parseFloat(amount),
           baseToken: baseToken.trim(),
+          riskProfile: {
+            riskTolerance,
+            horizon,
+            maxSingleAssetPercent: parseFloat(maxSingleAsset),
+            excludedTokens: excludedTokens
+              .split(",")
+              .map((token) => token.trim().toUpperCase())
+              .filter(Boolean),
+            preferredCategories,
+          },
         }),
       });
 
       const data: APIResponse = await response.json();
 
       if (data.success && data.data) {
-        if ("error" in data.data) {
-          setError(`AI Response Error: ${data.data.error}`);
-        } else {
-          setSuggestion(data.data);
-          setEditableAllocations([...data.data.allocations]);
-        }
+        setSuggestion(data.data);
+        setSuggestionId(data.suggestionId ?? null);
+        setEditableAllocations([...data.data.allocations]);
       } else {
-        setError(data.error || "Failed to get AI suggestion");
+        const details = data.issues
+          ?.map((issue) => `${issue.path}: ${issue.message}`)
+          .join("; ");
+        setError(
+          `${data.error || "Failed to get AI suggestion"}${
+            details ? ` (${details})` : ""
+          }`
+        );
       }
     } catch (err) {
       setError("Network error. Please try again.");
@@ -272,19 +411,28 @@ export default function AISuggestionForm() {
     value: string | number
   ) => {
     const updated = [...editableAllocations];
+    const decimals = baseTokenDecimals[baseToken] ?? 18;
 
     switch (field) {
       case "percentage":
         const newPercentage =
           typeof value === "string" ? parseFloat(value) || 0 : value;
         updated[index].percentage = Math.max(0, Math.min(100, newPercentage));
-        updated[index].amount = (parseFloat(amount) * newPercentage) / 100;
+        updated[index].amount = amountForPercentage(
+          amount,
+          updated[index].percentage,
+          decimals
+        );
         break;
       case "amount":
         const newAmount =
           typeof value === "string" ? parseFloat(value) || 0 : value;
         updated[index].amount = Math.max(0, newAmount);
-        updated[index].percentage = (newAmount / parseFloat(amount)) * 100;
+        updated[index].percentage = percentageForAmount(
+          amount,
+          updated[index].amount,
+          decimals
+        );
         break;
       case "token":
         updated[index].token = String(value).toUpperCase();
@@ -330,17 +478,22 @@ export default function AISuggestionForm() {
     );
     if (total === 0) return;
 
-    const updated = editableAllocations.map((alloc) => ({
-      ...alloc,
-      percentage: (alloc.percentage / total) * 100,
-      amount: (parseFloat(amount) * alloc.percentage) / total,
-    }));
-    setEditableAllocations(updated);
+    setEditableAllocations(
+      normalizeAllocations(
+        editableAllocations,
+        amount,
+        baseTokenDecimals[baseToken] ?? 18
+      )
+    );
   };
 
   // Enhanced send to contract with validation
   const handleSendToContract = async () => {
     const errors = validateAllocations();
+    saveToHistory({
+      editedAllocations: editableAllocations,
+      validationErrors: errors,
+    });
     if (errors.length > 0) {
       setError("Please fix all validation errors before sending to contract");
       return;
@@ -357,24 +510,28 @@ export default function AISuggestionForm() {
     }
   };
 
-  // Helper function to get error for field
-  const getFieldError = (index: number, field: string): string | null => {
-    const error = validationErrors.find(
-      (e) => e.index === index && e.field === field
+  // Dry-run the allocation so the user sees whether it would revert
+  const handleSimulate = async () => {
+    const simulated = await simulateAllocations(
+      editableAllocations,
+      parseFloat(amount),
+      baseToken
     );
-    return error ? error.message : null;
+    saveToHistory({
+      editedAllocations: editableAllocations,
+      validationErrors,
+      simulation: simulated,
+    });
   };
 
-  // Helper function to get total error
-  const getTotalError = (): string | null => {
+  // Helper function to get error for field
+  const getFieldError = (index: number, field: string): string | null => {
     const error = validationErrors.find(
-      (e) => e.index === -1 && e.field === "total"
+      (e) => e.index === index && e.field === field
     );
     return error ? error.message : null;
   };
 
-  const commonTokens = ["USDT", "USDC", "ETH", "BTC", "BNB", "MATIC"];
-
   return (
     <div className="max-w-6xl mx-auto p-6 bg-gradient-to-br from-blue-50 to-indigo-100 min-h-screen">
       <div className="bg-white rounded-2xl shadow-xl p-8">
@@ -387,6 +544,33 @@ export default function AISuggestionForm() {
           </p>
         </div>
 
+        {/* Session */}
+        <div className="flex flex-wrap items-center justify-end gap-3 mb-6 text-sm">
+          {identity ? (
+            <>
+              <span className="text-gray-600">
+                Signed in as <span className="font-mono">{identity.id}</span> (
+                {identity.role})
+              </span>
+              <button
+                onClick={signOut}
+                className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Sign out
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={signIn}
+              disabled={signingIn}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {signingIn ? "Signing in..." : "Sign in with wallet"}
+            </button>
+          )}
+          {authError && <span className="text-red-600">{authError}</span>}
+        </div>
+
         {/* Enhanced AI Input Form */}
         <form onSubmit={handleSubmit} className="space-y-6 mb-8">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -437,6 +621,123 @@ export default function AISuggestionForm() {
             </div>
           </div>
 
+          {/* Risk profile */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <label
+                htmlFor="riskTolerance"
+                className="block text-sm font-semibold text-gray-700"
+              >
+                Risk Tolerance
+              </label>
+              <select
+                id="riskTolerance"
+                value={riskTolerance}
+                onChange={(e) =>
+                  setRiskTolerance(e.target.value as RiskTolerance)
+                }
+                className="w-full p-3 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black transition-colors capitalize"
+              >
+                {riskTolerances.map((tolerance) => (
+                  <option key={tolerance} value={tolerance}>
+                    {tolerance}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label
+                htmlFor="horizon"
+                className="block text-sm font-semibold text-gray-700"
+              >
+                Investment Horizon
+              </label>
+              <select
+                id="horizon"
+                value={horizon}
+                onChange={(e) =>
+                  setHorizon(e.target.value as InvestmentHorizon)
+                }
+                className="w-full p-3 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black transition-colors"
+              >
+                {horizons.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label
+                htmlFor="maxSingleAsset"
+                className="block text-sm font-semibold text-gray-700"
+              >
+                Max Single-Asset Exposure (%)
+              </label>
+              <input
+                type="number"
+                id="maxSingleAsset"
+                value={maxSingleAsset}
+                onChange={(e) => setMaxSingleAsset(e.target.value)}
+                className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black transition-colors"
+                required
+                min="20"
+                max="100"
+                step="1"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <label
+                htmlFor="excludedTokens"
+                className="block text-sm font-semibold text-gray-700"
+              >
+                Excluded Tokens
+              </label>
+              <input
+                type="text"
+                id="excludedTokens"
+                value={excludedTokens}
+                onChange={(e) => setExcludedTokens(e.target.value)}
+                placeholder="e.g., LINK, AAVE"
+                className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black transition-colors"
+              />
+            </div>
+
+            {tokenCategories.length > 0 && (
+              <div className="space-y-2">
+                <span className="block text-sm font-semibold text-gray-700">
+                  Preferred Categories
+                </span>
+                <div className="flex flex-wrap gap-4 py-3">
+                  {tokenCategories.map((category) => (
+                    <label
+                      key={category}
+                      className="flex items-center gap-2 text-sm text-gray-700"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={preferredCategories.includes(category)}
+                        onChange={(e) =>
+                          setPreferredCategories((previous) =>
+                            e.target.checked
+                              ? [...previous, category]
+                              : previous.filter((c) => c !== category)
+                          )
+                        }
+                      />
+                      {category}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
           <button
             type="submit"
             disabled={loading}
@@ -480,6 +781,17 @@ export default function AISuggestionForm() {
                       {suggestion.estimatedValue.toLocaleString()} {baseToken}
                     </span>
                   </p>
+                  {suggestion.riskProfile && (
+                    <p className="text-green-700 text-sm mt-1">
+                      Profile: {suggestion.riskProfile.riskTolerance} risk ·{" "}
+                      {suggestion.riskProfile.horizon} term · max{" "}
+                      {suggestion.riskProfile.maxSingleAssetPercent}% per token
+                      {suggestion.riskProfile.excludedTokens.length > 0 &&
+                        ` · excluding ${suggestion.riskProfile.excludedTokens.join(", ")}`}
+                      {suggestion.riskProfile.preferredCategories.length > 0 &&
+                        ` · prefers ${suggestion.riskProfile.preferredCategories.join(", ")}`}
+                    </p>
+                  )}
                 </div>
                 <div className="text-right">
                   <div className="bg-green-100 text-green-800 px-4 py-2 rounded-full text-sm font-semibold">
@@ -525,9 +837,13 @@ export default function AISuggestionForm() {
                   Validation Errors ({validationErrors.length})
                 </h5>
                 <div className="space-y-1">
-                  {getTotalError() && (
-                    <p className="text-red-700 text-sm">• {getTotalError()}</p>
-                  )}
+                  {validationErrors
+                    .filter((e) => e.index === -1)
+                    .map((error, idx) => (
+                      <p key={`total-${idx}`} className="text-red-700 text-sm">
+                        • {error.message}
+                      </p>
+                    ))}
                   {validationErrors
                     .filter((e) => e.index !== -1)
                     .map((error, idx) => (
@@ -731,6 +1047,15 @@ export default function AISuggestionForm() {
               )}
             </div>
 
+            {/* Current on-chain allocation vs this suggestion */}
+            <AllocationDiff allocations={editableAllocations} />
+
+            {/* Historical performance of this allocation */}
+            <BacktestPanel
+              allocations={editableAllocations}
+              baseToken={baseToken}
+            />
+
             {/* Enhanced Send to Contract */}
             <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 rounded-xl p-6">
               <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4">
@@ -742,46 +1067,126 @@ export default function AISuggestionForm() {
                   <p className="text-blue-600 text-sm mt-1">
                     Execute your portfolio allocation on the blockchain
                   </p>
+                  <p className="text-blue-500 text-xs mt-1">
+                    {signingMode === "wallet"
+                      ? account
+                        ? `Signing with wallet ${account}`
+                        : "Signing with your browser wallet"
+                      : "Signing with the server key"}
+                  </p>
                 </div>
-                <button
-                  onClick={handleSendToContract}
-                  disabled={
-                    contractLoading ||
-                    editableAllocations.length === 0 ||
-                    validationErrors.length > 0
-                  }
-                  className="px-8 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-xl hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-all duration-200 shadow-lg"
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={handleSimulate}
+                    disabled={
+                      simulating ||
+                      editableAllocations.length === 0 ||
+                      validationErrors.length > 0
+                    }
+                    className="px-6 py-3 bg-white text-blue-700 border-2 border-blue-600 rounded-xl hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-colors"
+                  >
+                    {simulating ? "Simulating..." : "🔍 Simulate"}
+                  </button>
+                  <button
+                    onClick={handleSendToContract}
+                    disabled={
+                      contractLoading ||
+                      editableAllocations.length === 0 ||
+                      validationErrors.length > 0
+                    }
+                    className="px-8 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-xl hover:from-blue-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-all duration-200 shadow-lg"
+                  >
+                    {contractLoading ? (
+                      <div className="flex items-center">
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                        Sending...
+                      </div>
+                    ) : (
+                      "Deploy Portfolio"
+                    )}
+                  </button>
+                </div>
+              </div>
+
+              {simulation && (
+                <div
+                  className={`mb-4 p-4 rounded-lg border ${
+                    simulation.willSucceed
+                      ? "bg-green-50 border-green-200 text-green-700"
+                      : "bg-red-50 border-red-200 text-red-700"
+                  }`}
                 >
-                  {contractLoading ? (
-                    <div className="flex items-center">
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                      Sending...
-                    </div>
+                  {simulation.willSucceed ? (
+                    <>
+                      <p className="font-semibold">
+                        ✅ Simulation passed: this allocation will succeed
+                      </p>
+                      <p className="text-sm mt-1">
+                        Estimated gas: {simulation.gasEstimate}
+                        {simulation.feeEstimate &&
+                          ` · Estimated fee: ${formatEther(
+                            simulation.feeEstimate
+                          )} ETH`}
+                      </p>
+                      <p className="text-sm mt-1 font-mono break-all">
+                        {simulation.allocations
+                          .map((a) => `${a.token}: ${a.percentage} bps`)
+                          .join(", ")}
+                      </p>
+                    </>
                   ) : (
-                    "Deploy Portfolio"
+                    <>
+                      <p className="font-semibold">
+                        ❌ Simulation failed: this allocation will revert
+                      </p>
+                      <p className="text-sm mt-1">{simulation.revertReason}</p>
+                    </>
                   )}
-                </button>
-              </div>
+                </div>
+              )}
 
               {contractResult && (
                 <div className="mt-4 p-4 rounded-lg border">
-                  {contractResult.transactionHash ? (
-                    <div className="text-green-600">
+                  {contractResult.error ? (
+                    <div className="text-red-600">
                       <p className="font-semibold flex items-center">
-                        <span className="mr-2">🎉</span>
-                        Successfully deployed to contract!
+                        <span className="mr-2">❌</span>
+                        Failed to deploy to contract
                       </p>
-                      <p className="text-sm mt-1 font-mono bg-green-50 p-2 rounded break-all">
+                      <p className="text-sm mt-1">{contractResult.error}</p>
+                      {contractResult.transactionHash && (
+                        <p className="text-sm mt-1 font-mono bg-red-50 p-2 rounded break-all">
+                          Transaction: {contractResult.transactionHash}
+                        </p>
+                      )}
+                    </div>
+                  ) : contractLoading ? (
+                    <div className="text-blue-600">
+                      <p className="font-semibold flex items-center">
+                        <span className="mr-2">⏳</span>
+                        Waiting for confirmation
+                        {contractJob && ` (${contractJob.status})`}...
+                      </p>
+                      <p className="text-sm mt-1 font-mono bg-blue-50 p-2 rounded break-all">
                         Transaction: {contractResult.transactionHash}
                       </p>
                     </div>
                   ) : (
-                    <div className="text-red-600">
+                    <div className="text-green-600">
                       <p className="font-semibold flex items-center">
-                        <span className="mr-2">❌</span>
-                        Failed to deploy to contract
+                        <span className="mr-2">🎉</span>
+                        Successfully deployed to contract!
                       </p>
-                      <p className="text-sm mt-1">{contractResult.error}</p>
+                      <p className="text-sm mt-1 font-mono bg-green-50 p-2 rounded break-all">
+                        Transaction: {contractResult.transactionHash}
+                      </p>
+                      {contractJob?.receipt && (
+                        <p className="text-sm mt-1">
+                          Block {contractJob.receipt.blockNumber} ·{" "}
+                          {contractJob.confirmations} confirmation(s) · Gas used{" "}
+                          {contractJob.receipt.gasUsed}
+                        </p>
+                      )}
                     </div>
                   )}
                 </div>
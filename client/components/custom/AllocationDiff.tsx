@@ -0,0 +1,156 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { formatUnits } from "ethers";
+import { PortfolioSnapshot, TokenAllocation } from "@/types";
+import { diffAllocations, rebalanceTurnover } from "@/utils/allocationDiff";
+import { MAX_BPS } from "@/utils/allocationMath";
+
+interface AllocationDiffProps {
+  allocations: TokenAllocation[];
+}
+
+const formatBps = (bps: number) => `${(bps / 100).toFixed(2)}%`;
+
+// On-chain allocations and holdings of the basket strategy next to a
+// suggested allocation, with the trades a rebalance would need
+export default function AllocationDiff({ allocations }: AllocationDiffProps) {
+  const [portfolio, setPortfolio] = useState<PortfolioSnapshot | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadPortfolio = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const response = await fetch("/api/portfolio");
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error);
+      }
+      setPortfolio(data.data);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load on-chain holdings"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPortfolio();
+  }, [loadPortfolio]);
+
+  const rows = useMemo(
+    () => (portfolio ? diffAllocations(portfolio, allocations) : []),
+    [portfolio, allocations]
+  );
+
+  const decimals = portfolio?.vault.assetDecimals ?? 18;
+  const symbol = portfolio?.vault.assetSymbol ?? "";
+  const formatValue = (value: string | bigint) =>
+    Number(formatUnits(value, decimals)).toLocaleString(undefined, {
+      maximumFractionDigits: 4,
+    });
+
+  const formatTrade = (trade: bigint) =>
+    trade > BigInt(0)
+      ? `buy ${formatValue(trade)}`
+      : trade < BigInt(0)
+        ? `sell ${formatValue(-trade)}`
+        : "—";
+
+  const totalAssets = BigInt(portfolio?.strategy.totalAssets ?? 0);
+  const turnover = rebalanceTurnover(rows);
+  const turnoverBps =
+    totalAssets > BigInt(0)
+      ? Number((turnover * BigInt(MAX_BPS)) / totalAssets)
+      : 0;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h4 className="text-lg font-bold text-gray-800 flex items-center">
+          <span className="mr-2">⚖️</span>
+          Current vs Suggested
+        </h4>
+        <button
+          onClick={loadPortfolio}
+          disabled={loading}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          {loading ? "Loading..." : "Refresh"}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-2">
+          Could not load on-chain holdings: {error}
+        </p>
+      )}
+
+      {portfolio && portfolio.strategy.type !== "basket" && (
+        <p className="text-sm text-yellow-700 mb-2">
+          The vault&apos;s active strategy is not the AI basket strategy (
+          {portfolio.strategy.type}); these allocations would not take effect
+          until it is.
+        </p>
+      )}
+
+      {portfolio && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4">Token</th>
+                  <th className="py-2 pr-4 text-right">Current</th>
+                  <th className="py-2 pr-4 text-right">Target</th>
+                  <th className="py-2 pr-4 text-right">Delta</th>
+                  <th className="py-2 text-right">Trade ({symbol})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.token} className="border-b last:border-0">
+                    <td className="py-2 pr-4 font-medium">{row.symbol}</td>
+                    <td className="py-2 pr-4 text-right">
+                      {formatBps(row.currentBps)}
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      {formatBps(row.targetBps)}
+                    </td>
+                    <td
+                      className={`py-2 pr-4 text-right font-semibold ${
+                        row.deltaBps > 0
+                          ? "text-green-600"
+                          : row.deltaBps < 0
+                            ? "text-red-600"
+                            : "text-gray-500"
+                      }`}
+                    >
+                      {row.deltaBps > 0 ? "+" : ""}
+                      {formatBps(row.deltaBps)}
+                    </td>
+                    <td className="py-2 text-right font-mono">
+                      {row.tradeSize === null
+                        ? "no price feed"
+                        : formatTrade(BigInt(row.tradeSize))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <p className="text-sm text-gray-600 mt-3">
+            Strategy assets: {formatValue(totalAssets)} {symbol} · Estimated
+            turnover: {formatValue(turnover)} {symbol} ({formatBps(turnoverBps)}
+            ) · Block {portfolio.blockNumber}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
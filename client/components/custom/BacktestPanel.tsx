@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import {
+  BacktestResult,
+  RebalanceFrequency,
+  SchemaIssue,
+  TokenAllocation,
+} from "@/types";
+
+interface BacktestPanelProps {
+  allocations: TokenAllocation[];
+  baseToken: string;
+}
+
+const frequencies: RebalanceFrequency[] = [
+  "daily",
+  "weekly",
+  "monthly",
+  "never",
+];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 120;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+// SVG polyline points for the equity curve, scaled to the chart box
+function chartPoints(curve: BacktestResult["equityCurve"]): string {
+  const values = curve.map((point) => point.value);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  return curve
+    .map((point, index) => {
+      const x = (index / Math.max(curve.length - 1, 1)) * CHART_WIDTH;
+      const y = CHART_HEIGHT - ((point.value - min) / range) * CHART_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+// How the allocation would have performed on the server's historical prices
+export default function BacktestPanel({
+  allocations,
+  baseToken,
+}: BacktestPanelProps) {
+  const [frequency, setFrequency] = useState<RebalanceFrequency>("weekly");
+  const [thresholdPercent, setThresholdPercent] = useState("1");
+  const [swapFeeBps, setSwapFeeBps] = useState("30");
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const runBacktest = async () => {
+    setLoading(true);
+    setError("");
+    setResult(null);
+    try {
+      const response = await fetch("/api/backtest", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          allocations,
+          baseToken,
+          rule: {
+            frequency,
+            thresholdBps: Math.round(parseFloat(thresholdPercent) * 100),
+          },
+          swapFeeBps: parseFloat(swapFeeBps),
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        const details = data.issues
+          ?.map((issue: SchemaIssue) => `${issue.path}: ${issue.message}`)
+          .join("; ");
+        throw new Error(details ? `${data.error} (${details})` : data.error);
+      }
+      setResult(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Backtest failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const metrics: [string, string][] = result
+    ? [
+        ["Total return", formatPercent(result.totalReturn)],
+        ["Annualized return", formatPercent(result.annualizedReturn)],
+        ["Volatility (ann.)", formatPercent(result.volatility)],
+        ["Max drawdown", formatPercent(result.maxDrawdown)],
+        [
+          "Sharpe ratio",
+          result.sharpeRatio === null ? "—" : result.sharpeRatio.toFixed(2),
+        ],
+        ["Turnover", formatPercent(result.turnover)],
+        ["Rebalances", String(result.rebalances)],
+        [
+          "Fees paid",
+          `${result.fees.toLocaleString(undefined, {
+            maximumFractionDigits: 2,
+          })} ${baseToken}`,
+        ],
+      ]
+    : [];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-4">
+        <div>
+          <h4 className="text-lg font-bold text-gray-800 flex items-center">
+            <span className="mr-2">📈</span>
+            Backtest
+          </h4>
+          <p className="text-gray-500 text-sm mt-1">
+            Replays this allocation over historical prices, rebalancing like the
+            strategy when a position drifts past the threshold
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="flex flex-col text-gray-600">
+            Rebalance check
+            <select
+              value={frequency}
+              onChange={(e) =>
+                setFrequency(e.target.value as RebalanceFrequency)
+              }
+              className="mt-1 p-2 border border-gray-300 rounded-lg text-black capitalize"
+            >
+              {frequencies.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col text-gray-600">
+            Threshold (%)
+            <input
+              type="number"
+              value={thresholdPercent}
+              onChange={(e) => setThresholdPercent(e.target.value)}
+              min="0"
+              max="50"
+              step="0.1"
+              className="mt-1 w-24 p-2 border border-gray-300 rounded-lg text-black"
+            />
+          </label>
+          <label className="flex flex-col text-gray-600">
+            Swap fee (bps)
+            <input
+              type="number"
+              value={swapFeeBps}
+              onChange={(e) => setSwapFeeBps(e.target.value)}
+              min="0"
+              max="1000"
+              step="1"
+              className="mt-1 w-24 p-2 border border-gray-300 rounded-lg text-black"
+            />
+          </label>
+          <button
+            onClick={runBacktest}
+            disabled={loading || allocations.length === 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 font-medium"
+          >
+            {loading ? "Running..." : "Run backtest"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+
+      {result && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {result.startDate} to {result.endDate} ({result.observations} days)
+            · {result.initialValue.toLocaleString()} →{" "}
+            {result.finalValue.toLocaleString(undefined, {
+              maximumFractionDigits: 2,
+            })}{" "}
+            {baseToken}
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {metrics.map(([label, value]) => (
+              <div key={label} className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">{label}</p>
+                <p className="text-lg font-semibold text-gray-900">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-32 bg-gray-50 rounded-lg"
+          >
+            <polyline
+              points={chartPoints(result.equityCurve)}
+              fill="none"
+              stroke="#4f46e5"
+              strokeWidth="2"
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { SuggestionRecord } from "@/types";
+import { fetchSuggestionHistory } from "@/lib/history/client";
+
+const PAGE_SIZE = 25;
+
+function formatAllocations(record: SuggestionRecord): string {
+  const allocations = record.editedAllocations ?? record.advice?.allocations;
+  if (!allocations) return "—";
+  return allocations
+    .map((a) => `${a.token || "?"} ${a.percentage.toFixed(2)}%`)
+    .join(", ");
+}
+
+// Past AI suggestions with how they were edited, checked and executed
+export default function SuggestionHistory() {
+  const [records, setRecords] = useState<SuggestionRecord[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const loadPage = useCallback(async (before?: string) => {
+    setLoading(true);
+    setError("");
+    try {
+      const page = await fetchSuggestionHistory(PAGE_SIZE, before);
+      setRecords((previous) => (before ? [...previous, ...page] : page));
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load suggestion history"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold text-gray-800">Suggestion History</h2>
+        <button
+          onClick={() => loadPage()}
+          disabled={loading}
+          className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 rounded-lg p-4 mb-6 text-red-800">
+          {error}
+        </div>
+      )}
+
+      {records.length === 0 && !loading && !error ? (
+        <p className="text-gray-500">No suggestions yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="text-gray-600 border-b">
+                <th className="py-2 pr-4">Requested</th>
+                <th className="py-2 pr-4">Input</th>
+                <th className="py-2 pr-4">Model</th>
+                <th className="py-2 pr-4">Allocations</th>
+                <th className="py-2 pr-4">Checks</th>
+                <th className="py-2 pr-4">Outcome</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map((record) => (
+                <tr key={record.id} className="border-b align-top">
+                  <td className="py-3 pr-4 text-gray-700 whitespace-nowrap">
+                    {new Date(record.createdAt).toLocaleString()}
+                    <div className="text-xs text-gray-500">
+                      {record.requestedBy}
+                    </div>
+                  </td>
+                  <td className="py-3 pr-4 text-gray-800 whitespace-nowrap">
+                    {record.input.amount.toLocaleString()}{" "}
+                    {record.input.baseToken}
+                  </td>
+                  <td className="py-3 pr-4 text-gray-700">
+                    {record.provider} · {record.model}
+                    <div className="text-xs text-gray-500">
+                      prompt {record.promptVersion}
+                      {record.attempts !== undefined &&
+                        ` · ${record.attempts} attempt(s)`}
+                    </div>
+                  </td>
+                  <td className="py-3 pr-4 text-gray-800">
+                    {formatAllocations(record)}
+                    {record.editedAllocations && (
+                      <div className="text-xs text-blue-600">edited</div>
+                    )}
+                  </td>
+                  <td className="py-3 pr-4">
+                    {record.error ? (
+                      <span className="text-red-600">{record.error}</span>
+                    ) : (
+                      <>
+                        {record.validationErrors && (
+                          <div
+                            className={
+                              record.validationErrors.length > 0
+                                ? "text-red-600"
+                                : "text-green-600"
+                            }
+                          >
+                            {record.validationErrors.length > 0
+                              ? `${record.validationErrors.length} validation error(s)`
+                              : "Valid"}
+                          </div>
+                        )}
+                        {record.simulation && (
+                          <div
+                            className={
+                              record.simulation.willSucceed
+                                ? "text-green-600"
+                                : "text-red-600"
+                            }
+                          >
+                            {record.simulation.willSucceed
+                              ? "Simulation passed"
+                              : `Simulation failed: ${record.simulation.revertReason}`}
+                          </div>
+                        )}
+                        {!record.validationErrors && !record.simulation && (
+                          <span className="text-gray-400">Not checked</span>
+                        )}
+                      </>
+                    )}
+                  </td>
+                  <td className="py-3 pr-4">
+                    {record.execution ? (
+                      <div
+                        className={
+                          record.execution.status === "confirmed"
+                            ? "text-green-600"
+                            : "text-red-600"
+                        }
+                      >
+                        {record.execution.status === "confirmed"
+                          ? "Confirmed"
+                          : `Failed: ${record.execution.error}`}
+                        {record.execution.transactionHash && (
+                          <div className="font-mono text-xs break-all text-gray-600">
+                            {record.execution.transactionHash}
+                          </div>
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-gray-400">Not sent</span>
+                    )}
+                  </td>
+                  <td className="py-3 whitespace-nowrap">
+                    {record.advice && (
+                      <Link
+                        href={`/?suggestion=${encodeURIComponent(record.id)}`}
+                        className="px-3 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                      >
+                        Open in editor
+                      </Link>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {hasMore && (
+        <button
+          onClick={() => loadPage(records[records.length - 1]?.id)}
+          disabled={loading}
+          className="mt-4 px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          {loading ? "Loading..." : "Load more"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatUnits, parseUnits } from "ethers";
+import { useVault, VaultAction } from "@/hooks/useVault";
+
+type AmountAction = Extract<
+  VaultAction,
+  "deposit" | "mint" | "withdraw" | "redeem"
+>;
+
+const actionLabels: Record<AmountAction, string> = {
+  deposit: "Deposit",
+  mint: "Mint",
+  withdraw: "Withdraw",
+  redeem: "Redeem",
+};
+
+// Wait for typing to pause before asking the vault for a preview
+const PREVIEW_DEBOUNCE_MS = 300;
+
+// Deposit into and exit from the ERC4626 vault with the connected wallet
+export default function VaultPanel() {
+  const {
+    state,
+    account,
+    pending,
+    transactionHash,
+    error,
+    refresh,
+    previewDeposit,
+    previewMint,
+    previewWithdraw,
+    previewRedeem,
+    deposit,
+    mint,
+    withdraw,
+    redeem,
+    depositAll,
+    withdrawAll,
+  } = useVault();
+
+  const [action, setAction] = useState<AmountAction>("deposit");
+  const [amount, setAmount] = useState("");
+  const [usePermit, setUsePermit] = useState(true);
+  const [preview, setPreview] = useState<string | null>(null);
+
+  // deposit/withdraw take asset amounts; mint/redeem take share amounts
+  const inputIsAssets = action === "deposit" || action === "withdraw";
+  const inputDecimals = state
+    ? inputIsAssets
+      ? state.assetDecimals
+      : state.shareDecimals
+    : 18;
+  const inputSymbol = state
+    ? inputIsAssets
+      ? state.assetSymbol
+      : state.shareSymbol
+    : "";
+
+  const parseAmount = (): bigint | null => {
+    try {
+      const value = parseUnits(amount || "0", inputDecimals);
+      return value > BigInt(0) ? value : null;
+    } catch {
+      return null;
+    }
+  };
+
+  // Preview the other side of the trade whenever the input changes
+  useEffect(() => {
+    if (!state) return;
+
+    let value: bigint | null;
+    try {
+      value = parseUnits(amount || "0", inputDecimals);
+    } catch {
+      value = null;
+    }
+    if (!value) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const run = async () => {
+      try {
+        let result: string;
+        switch (action) {
+          case "deposit":
+            result = `${formatUnits(await previewDeposit(value), state.shareDecimals)} ${state.shareSymbol}`;
+            break;
+          case "mint":
+            result = `${formatUnits(await previewMint(value), state.assetDecimals)} ${state.assetSymbol} required`;
+            break;
+          case "withdraw":
+            result = `${formatUnits(await previewWithdraw(value), state.shareDecimals)} ${state.shareSymbol} burned`;
+            break;
+          case "redeem":
+            result = `${formatUnits(await previewRedeem(value), state.assetDecimals)} ${state.assetSymbol}`;
+            break;
+        }
+        if (!cancelled) setPreview(result);
+      } catch {
+        if (!cancelled) setPreview(null);
+      }
+    };
+    const timer = setTimeout(run, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // Previews are re-read only when the request itself changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [action, amount, state?.address]);
+
+  const handleSubmit = async () => {
+    const value = parseAmount();
+    if (value === null) return;
+
+    switch (action) {
+      case "deposit":
+        await deposit(value, usePermit);
+        break;
+      case "mint":
+        await mint(value, usePermit);
+        break;
+      case "withdraw":
+        await withdraw(value);
+        break;
+      case "redeem":
+        await redeem(value);
+        break;
+    }
+  };
+
+  const busy = pending !== null;
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800 flex items-center">
+              <span className="mr-2">🏦</span>
+              Vault
+            </h2>
+            {account && (
+              <p className="text-sm text-gray-500 mt-1 font-mono">{account}</p>
+            )}
+          </div>
+          <button
+            onClick={refresh}
+            disabled={busy}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {state ? "Refresh" : "Connect wallet"}
+          </button>
+        </div>
+
+        {state?.paused && (
+          <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+            ⏸️ The vault is paused. Deposits and withdrawals are disabled until
+            the owner unpauses it.
+          </div>
+        )}
+
+        {state && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-sm">
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-gray-500">Wallet</p>
+                <p className="font-semibold">
+                  {formatUnits(state.assetBalance, state.assetDecimals)}{" "}
+                  {state.assetSymbol}
+                </p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-gray-500">Your shares</p>
+                <p className="font-semibold">
+                  {formatUnits(state.shareBalance, state.shareDecimals)}{" "}
+                  {state.shareSymbol}
+                </p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-gray-500">Withdrawable</p>
+                <p className="font-semibold">
+                  {formatUnits(state.maxWithdraw, state.assetDecimals)}{" "}
+                  {state.assetSymbol}
+                </p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-gray-500">Vault total</p>
+                <p className="font-semibold">
+                  {formatUnits(state.totalAssets, state.assetDecimals)}{" "}
+                  {state.assetSymbol}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              {(Object.keys(actionLabels) as AmountAction[]).map((key) => (
+                <button
+                  key={key}
+                  onClick={() => setAction(key)}
+                  className={`px-4 py-2 rounded-lg text-sm font-semibold ${
+                    action === key
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {actionLabels[key]}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-4 items-start md:items-end">
+              <div className="flex-1 w-full">
+                <label
+                  htmlFor="vault-amount"
+                  className="block text-sm font-semibold text-gray-700 mb-1"
+                >
+                  Amount ({inputSymbol})
+                </label>
+                <input
+                  id="vault-amount"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+                  placeholder="0.0"
+                />
+                <p className="text-sm text-gray-500 mt-1 h-5">
+                  {preview && `≈ ${preview}`}
+                </p>
+              </div>
+              <button
+                onClick={handleSubmit}
+                disabled={busy || state.paused || parseAmount() === null}
+                className="px-8 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-xl disabled:opacity-50 font-semibold"
+              >
+                {pending === "approve"
+                  ? "Approving..."
+                  : pending === action
+                    ? "Confirming..."
+                    : actionLabels[action]}
+              </button>
+            </div>
+
+            {state.supportsPermit &&
+              (action === "deposit" || action === "mint") && (
+                <label className="flex items-center gap-2 text-sm text-gray-600 mt-2">
+                  <input
+                    type="checkbox"
+                    checked={usePermit}
+                    onChange={(e) => setUsePermit(e.target.checked)}
+                  />
+                  Approve with a signed permit for exactly this amount
+                </label>
+              )}
+
+            <div className="flex flex-wrap gap-2 mt-6">
+              <button
+                onClick={() => depositAll(usePermit)}
+                disabled={
+                  busy || state.paused || state.assetBalance === BigInt(0)
+                }
+                className="px-4 py-2 border-2 border-blue-600 text-blue-700 rounded-lg hover:bg-blue-50 disabled:opacity-50 text-sm font-semibold"
+              >
+                {pending === "depositAll" ? "Depositing..." : "Deposit all"}
+              </button>
+              <button
+                onClick={withdrawAll}
+                disabled={
+                  busy || state.paused || state.shareBalance === BigInt(0)
+                }
+                className="px-4 py-2 border-2 border-blue-600 text-blue-700 rounded-lg hover:bg-blue-50 disabled:opacity-50 text-sm font-semibold"
+              >
+                {pending === "withdrawAll" ? "Withdrawing..." : "Withdraw all"}
+              </button>
+            </div>
+          </>
+        )}
+
+        {transactionHash && (
+          <p className="mt-4 text-sm font-mono bg-green-50 text-green-700 p-2 rounded break-all">
+            Transaction: {transactionHash}
+          </p>
+        )}
+        {error && (
+          <p className="mt-4 text-sm bg-red-50 text-red-700 p-2 rounded">
+            {error}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
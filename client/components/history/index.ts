@@ -0,0 +1,3 @@
+import SuggestionHistory from "../custom/SuggestionHistory";
+
+export { SuggestionHistory };
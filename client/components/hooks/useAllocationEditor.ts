@@ -1,8 +1,13 @@
 import { useState, useEffect } from "react";
 import { TokenAllocation, ValidationError } from "../../types";
 import { validateAllocations } from "../../utils/validators";
+import {
+  amountForPercentage,
+  normalizeAllocations,
+  percentageForAmount,
+} from "../../utils/allocationMath";
 
-export function useAllocationEditor(initialAmount: string) {
+export function useAllocationEditor(initialAmount: string, baseDecimals = 18) {
   const [allocations, setAllocations] = useState<TokenAllocation[]>([]);
   const [isEditing, setIsEditing] = useState<boolean>(false);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>(
@@ -34,20 +39,27 @@ export function useAllocationEditor(initialAmount: string) {
     value: string | number
   ) => {
     const updated = [...allocations];
-    const amount = parseFloat(initialAmount);
 
     switch (field) {
       case "percentage":
         const newPercentage =
           typeof value === "string" ? parseFloat(value) || 0 : value;
         updated[index].percentage = Math.max(0, Math.min(100, newPercentage));
-        updated[index].amount = (amount * newPercentage) / 100;
+        updated[index].amount = amountForPercentage(
+          initialAmount,
+          updated[index].percentage,
+          baseDecimals
+        );
         break;
       case "amount":
         const newAmount =
           typeof value === "string" ? parseFloat(value) || 0 : value;
         updated[index].amount = Math.max(0, newAmount);
-        updated[index].percentage = (newAmount / amount) * 100;
+        updated[index].percentage = percentageForAmount(
+          initialAmount,
+          updated[index].amount,
+          baseDecimals
+        );
         break;
       case "token":
         updated[index].token = String(value).toUpperCase();
@@ -82,13 +94,9 @@ export function useAllocationEditor(initialAmount: string) {
     const total = allocations.reduce((sum, alloc) => sum + alloc.percentage, 0);
     if (total === 0) return;
 
-    const amount = parseFloat(initialAmount);
-    const updated = allocations.map((alloc) => ({
-      ...alloc,
-      percentage: (alloc.percentage / total) * 100,
-      amount: (amount * alloc.percentage) / total,
-    }));
-    setAllocations(updated);
+    setAllocations(
+      normalizeAllocations(allocations, initialAmount, baseDecimals)
+    );
   };
 
   return {
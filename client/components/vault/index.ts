@@ -0,0 +1,3 @@
+import VaultPanel from "../custom/VaultPanel";
+
+export { VaultPanel };
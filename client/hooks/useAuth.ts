@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from "react";
+import { BrowserProvider } from "ethers";
+import { AuthIdentity } from "@/types";
+import { fetchContractConfig } from "@/lib/contracts/config";
+import { formatSiweMessage } from "@/utils/siwe";
+
+// Wallet sign-in against /api/auth. The session lives in an httpOnly cookie,
+// so later same-origin fetches are authenticated automatically.
+export const useAuth = () => {
+  const [identity, setIdentity] = useState<AuthIdentity | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/session");
+      const data = await response.json();
+      setIdentity(data.success ? data.data : null);
+    } catch {
+      setIdentity(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const signIn = async () => {
+    setSigningIn(true);
+    setError(null);
+
+    try {
+      if (!window.ethereum) {
+        throw new Error(
+          "No browser wallet found. Install MetaMask or similar."
+        );
+      }
+
+      const provider = new BrowserProvider(window.ethereum);
+      await provider.send("eth_requestAccounts", []);
+      const signer = await provider.getSigner();
+
+      const nonceResponse = await fetch("/api/auth/nonce");
+      const nonceData = await nonceResponse.json();
+      if (!nonceData.success) {
+        throw new Error(nonceData.error);
+      }
+
+      // Prefer the chain the contracts are deployed on
+      const chainId = await fetchContractConfig()
+        .then((config) => config.chainId)
+        .catch(async () => Number((await provider.getNetwork()).chainId));
+
+      const message = formatSiweMessage({
+        domain: window.location.host,
+        address: signer.address,
+        statement: "Sign in to the AI Investment Advisor.",
+        uri: window.location.origin,
+        chainId,
+        nonce: nonceData.data.nonce,
+        issuedAt: new Date().toISOString(),
+      });
+      const signature = await signer.signMessage(message);
+
+      const loginResponse = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ message, signature }),
+      });
+      const loginData = await loginResponse.json();
+      if (!loginData.success) {
+        throw new Error(loginData.error);
+      }
+
+      setIdentity(loginData.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign-in failed");
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  const signOut = async () => {
+    await fetch("/api/auth/session", { method: "DELETE" });
+    setIdentity(null);
+  };
+
+  return { identity, signIn, signOut, signingIn, error };
+};
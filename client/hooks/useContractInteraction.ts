@@ -1,10 +1,20 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { BrowserProvider, Eip1193Provider, JsonRpcSigner } from "ethers";
+import { AIBasketStrategy__factory } from "@contracts";
+import {
+  SigningMode,
+  SimulationResult,
+  TokenAllocation,
+  TransactionJob,
+} from "@/types";
+import { toContractAllocations } from "@/utils/allocationMath";
+import { simulateSetAllocations } from "@/lib/contracts/simulation";
+import { fetchContractConfig } from "@/lib/contracts/config";
 
-interface TokenAllocation {
-  token: string;
-  percentage: number;
-  amount: number;
-  tokenAddress: string;
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider;
+  }
 }
 
 interface ContractResult {
@@ -12,20 +22,85 @@ interface ContractResult {
   error?: string;
 }
 
-export const useContractInteraction = () => {
+const JOB_POLL_INTERVAL_MS = 2000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Wallet signing unless the deployment opts in to the server key
+const defaultSigningMode: SigningMode =
+  process.env.NEXT_PUBLIC_SIGNING_MODE === "server" ? "server" : "wallet";
+
+export const useContractInteraction = (
+  mode: SigningMode = defaultSigningMode
+) => {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<ContractResult | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [account, setAccount] = useState<string | null>(null);
+  const [job, setJob] = useState<TransactionJob | null>(null);
 
-  const sendAllocationsToContract = async (
+  // Idempotency key for the submission in flight. Resending the same payload
+  // before its job is final (a double click, or a retry after a network error)
+  // reuses the key, so the server returns the original job instead of calling
+  // setAllocations twice.
+  const submission = useRef<{ payload: string; key: string } | null>(null);
+
+  // Connect the EIP-1193 wallet and return the strategy bound to its signer,
+  // after checking the network and that the account owns the strategy
+  const connectStrategy = async () => {
+    if (!window.ethereum) {
+      throw new Error("No browser wallet found. Install MetaMask or similar.");
+    }
+
+    const config = await fetchContractConfig();
+    const provider = new BrowserProvider(window.ethereum);
+    await provider.send("eth_requestAccounts", []);
+
+    const network = await provider.getNetwork();
+    if (Number(network.chainId) !== config.chainId) {
+      throw new Error(
+        `Wallet is on chain ${network.chainId}; switch to chain ${config.chainId}`
+      );
+    }
+
+    const signer: JsonRpcSigner = await provider.getSigner();
+    setAccount(signer.address);
+
+    const strategy = AIBasketStrategy__factory.connect(
+      config.basketStrategyAddress,
+      signer
+    );
+    const owner = await strategy.owner();
+    if (owner.toLowerCase() !== signer.address.toLowerCase()) {
+      throw new Error(
+        `Connected account ${signer.address} is not the strategy owner (${owner})`
+      );
+    }
+
+    return strategy;
+  };
+
+  // Dry-run setAllocations without broadcasting
+  const simulateAllocations = async (
     allocations: TokenAllocation[],
     totalAmount: number,
     baseToken: string
-  ) => {
-    setLoading(true);
-    setResult(null);
+  ): Promise<SimulationResult> => {
+    setSimulating(true);
+    setSimulation(null);
 
     try {
-      // Call the correct API route path
+      if (mode === "wallet") {
+        const strategy = await connectStrategy();
+        const simulated = await simulateSetAllocations(
+          strategy,
+          toContractAllocations(allocations)
+        );
+        setSimulation(simulated);
+        return simulated;
+      }
+
       const response = await fetch("/api/contract", {
         method: "POST",
         headers: {
@@ -35,34 +110,146 @@ export const useContractInteraction = () => {
           allocations,
           totalAmount,
           baseToken,
+          simulate: true,
         }),
       });
 
       const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error);
+      }
+
+      setSimulation(data.data);
+      return data.data;
+    } catch (error) {
+      const failed: SimulationResult = {
+        willSucceed: false,
+        revertReason:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        allocations: [],
+      };
+      setSimulation(failed);
+      return failed;
+    } finally {
+      setSimulating(false);
+    }
+  };
 
-      if (data.success) {
-        setResult({
-          transactionHash: data.data.transactionHash,
-        });
+  const sendAllocationsFromWallet = async (allocations: TokenAllocation[]) => {
+    const strategy = await connectStrategy();
+    const tx = await strategy.setAllocations(
+      toContractAllocations(allocations)
+    );
+    // Show the hash while waiting so it is not lost if mining is slow
+    setResult({ transactionHash: tx.hash });
 
-        return {
-          success: true,
-          transactionHash: data.data.transactionHash,
-        };
-      } else {
-        setResult({
-          error: data.error,
-        });
+    const receipt = await tx.wait();
+    return receipt?.hash ?? tx.hash;
+  };
 
+  const sendAllocationsFromServer = async (
+    allocations: TokenAllocation[],
+    totalAmount: number,
+    baseToken: string
+  ) => {
+    const payload = JSON.stringify({
+      allocations,
+      totalAmount,
+      baseToken,
+    });
+    if (submission.current?.payload !== payload) {
+      submission.current = { payload, key: crypto.randomUUID() };
+    }
+
+    // The route queues the transaction and returns a job id to poll
+    const response = await fetch("/api/contract", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": submission.current.key,
+      },
+      body: payload,
+    });
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error);
+    }
+    return waitForJob(data.data.jobId);
+  };
+
+  // Poll a server transaction job until it reaches a final status
+  const waitForJob = async (jobId: string): Promise<string> => {
+    for (;;) {
+      const response = await fetch(`/api/jobs/${jobId}`);
+      const data = await response.json();
+      if (!data.success) {
         throw new Error(data.error);
       }
+
+      const current: TransactionJob = data.data;
+      setJob(current);
+      if (["mined", "failed", "replaced"].includes(current.status)) {
+        // Outcome known; sending again is a new submission
+        submission.current = null;
+      }
+      if (current.transactionHash) {
+        setResult({ transactionHash: current.transactionHash });
+      }
+
+      if (current.status === "mined") {
+        return current.transactionHash!;
+      }
+      if (current.status === "replaced") {
+        if (current.error) {
+          throw new Error(current.error);
+        }
+        return current.replacementHash!;
+      }
+      if (current.status === "failed") {
+        throw new Error(current.error || "Transaction failed");
+      }
+
+      await sleep(JOB_POLL_INTERVAL_MS);
+    }
+  };
+
+  const sendAllocationsToContract = async (
+    allocations: TokenAllocation[],
+    totalAmount: number,
+    baseToken: string
+  ) => {
+    setLoading(true);
+    setResult(null);
+    setJob(null);
+
+    try {
+      const transactionHash =
+        mode === "wallet"
+          ? await sendAllocationsFromWallet(allocations)
+          : await sendAllocationsFromServer(
+              allocations,
+              totalAmount,
+              baseToken
+            );
+
+      setResult({
+        transactionHash,
+      });
+
+      return {
+        success: true,
+        transactionHash,
+      };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error occurred";
 
-      setResult({
+      // Keep any hash we already have so a failed transaction can be looked up
+      setResult((previous) => ({
+        transactionHash: previous?.transactionHash,
         error: errorMessage,
-      });
+      }));
 
       throw error;
     } finally {
@@ -72,7 +259,13 @@ export const useContractInteraction = () => {
 
   return {
     sendAllocationsToContract,
+    simulateAllocations,
     loading,
     result,
+    simulating,
+    simulation,
+    mode,
+    account,
+    job,
   };
 };
@@ -0,0 +1,362 @@
+import { useCallback, useRef, useState } from "react";
+import {
+  BrowserProvider,
+  Contract,
+  ContractTransactionResponse,
+  JsonRpcSigner,
+  Signature,
+} from "ethers";
+import {
+  IERC20Metadata,
+  IERC20Metadata__factory,
+  Vault,
+  Vault__factory,
+} from "@contracts";
+import { fetchContractConfig } from "@/lib/contracts/config";
+import { decodeRevertReason } from "@/lib/contracts/simulation";
+
+// Vault balances and settings for the connected account
+export interface VaultState {
+  address: string;
+  asset: string;
+  assetSymbol: string;
+  assetDecimals: number;
+  shareSymbol: string;
+  shareDecimals: number;
+  paused: boolean;
+  supportsPermit: boolean;
+  assetBalance: bigint;
+  shareBalance: bigint;
+  allowance: bigint;
+  maxWithdraw: bigint;
+  maxRedeem: bigint;
+  totalAssets: bigint;
+}
+
+export type VaultAction =
+  "deposit" | "mint" | "withdraw" | "redeem" | "depositAll" | "withdrawAll";
+
+interface VaultContracts {
+  signer: JsonRpcSigner;
+  vault: Vault;
+  asset: IERC20Metadata;
+}
+
+// EIP-2612 and EIP-5267 getters; the asset is only known to be an ERC20
+const permitAbi = [
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function eip712Domain() view returns (bytes1, string name, string version, uint256, address, bytes32, uint256[])",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+];
+
+const PERMIT_TTL_SECONDS = 20 * 60;
+
+async function supportsPermit(asset: string, signer: JsonRpcSigner) {
+  const token = new Contract(asset, permitAbi, signer);
+  try {
+    await Promise.all([token.nonces(signer.address), token.DOMAIN_SEPARATOR()]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wallet-signed ERC4626 interactions with the configured Vault
+export const useVault = () => {
+  const [state, setState] = useState<VaultState | null>(null);
+  const [account, setAccount] = useState<string | null>(null);
+  const [pending, setPending] = useState<VaultAction | "approve" | null>(null);
+  const [transactionHash, setTransactionHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Contracts from the last connect, reused for read-only previews
+  const connected = useRef<VaultContracts | null>(null);
+
+  const connectContracts = useCallback(async (): Promise<VaultContracts> => {
+    if (!window.ethereum) {
+      throw new Error("No browser wallet found. Install MetaMask or similar.");
+    }
+
+    const config = await fetchContractConfig();
+    if (!config.vaultAddress) {
+      throw new Error("Vault address is not configured");
+    }
+
+    const provider = new BrowserProvider(window.ethereum);
+    await provider.send("eth_requestAccounts", []);
+
+    const network = await provider.getNetwork();
+    if (Number(network.chainId) !== config.chainId) {
+      throw new Error(
+        `Wallet is on chain ${network.chainId}; switch to chain ${config.chainId}`
+      );
+    }
+
+    const signer = await provider.getSigner();
+    setAccount(signer.address);
+
+    const vault = Vault__factory.connect(config.vaultAddress, signer);
+    const asset = IERC20Metadata__factory.connect(await vault.asset(), signer);
+    connected.current = { signer, vault, asset };
+    return connected.current;
+  }, []);
+
+  const load = useCallback(async ({ signer, vault, asset }: VaultContracts) => {
+    const owner = signer.address;
+    const vaultAddress = await vault.getAddress();
+    const assetAddress = await asset.getAddress();
+
+    const [
+      assetSymbol,
+      assetDecimals,
+      shareSymbol,
+      shareDecimals,
+      paused,
+      permit,
+      assetBalance,
+      shareBalance,
+      allowance,
+      maxWithdraw,
+      maxRedeem,
+      totalAssets,
+    ] = await Promise.all([
+      asset.symbol(),
+      asset.decimals(),
+      vault.symbol(),
+      vault.decimals(),
+      vault.paused(),
+      supportsPermit(assetAddress, signer),
+      asset.balanceOf(owner),
+      vault.balanceOf(owner),
+      asset.allowance(owner, vaultAddress),
+      vault.maxWithdraw(owner),
+      vault.maxRedeem(owner),
+      vault.totalAssets(),
+    ]);
+
+    const next: VaultState = {
+      address: vaultAddress,
+      asset: assetAddress,
+      assetSymbol,
+      assetDecimals: Number(assetDecimals),
+      shareSymbol,
+      shareDecimals: Number(shareDecimals),
+      paused,
+      supportsPermit: permit,
+      assetBalance,
+      shareBalance,
+      allowance,
+      maxWithdraw,
+      maxRedeem,
+      totalAssets,
+    };
+    setState(next);
+    return next;
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setError(null);
+    try {
+      await load(await connectContracts());
+    } catch (err) {
+      setError(decodeRevertReason(err));
+    }
+  }, [connectContracts, load]);
+
+  // Previews are plain view calls on the already connected vault, so they
+  // never prompt the wallet
+  const connectedVault = () => {
+    if (!connected.current) {
+      throw new Error("Connect a wallet to preview");
+    }
+    return connected.current.vault;
+  };
+
+  // Shares for `assets` / assets for `shares`, as the vault would compute now
+  const previewDeposit = (assets: bigint) =>
+    connectedVault().previewDeposit(assets);
+
+  const previewMint = (shares: bigint) => connectedVault().previewMint(shares);
+
+  const previewWithdraw = (assets: bigint) =>
+    connectedVault().previewWithdraw(assets);
+
+  const previewRedeem = (shares: bigint) =>
+    connectedVault().previewRedeem(shares);
+
+  // Let the vault pull `amount` of the asset: a signed EIP-2612 permit for
+  // exactly that amount when the token supports it, otherwise approve()
+  const ensureAllowance = async (
+    contracts: VaultContracts,
+    current: VaultState,
+    amount: bigint,
+    usePermit: boolean
+  ) => {
+    if (current.allowance >= amount) return;
+
+    setPending("approve");
+    const { signer, asset } = contracts;
+
+    if (usePermit && current.supportsPermit) {
+      const token = new Contract(current.asset, permitAbi, signer);
+      const network = await signer.provider.getNetwork();
+
+      // Prefer the token's own EIP-712 domain; older permits only expose name
+      let name = current.assetSymbol;
+      let version = "1";
+      try {
+        const domain = await token.eip712Domain();
+        name = domain.name;
+        version = domain.version;
+      } catch {
+        name = await asset.name();
+      }
+
+      const deadline = BigInt(
+        Math.floor(Date.now() / 1000) + PERMIT_TTL_SECONDS
+      );
+      const nonce: bigint = await token.nonces(signer.address);
+      const signature = Signature.from(
+        await signer.signTypedData(
+          {
+            name,
+            version,
+            chainId: network.chainId,
+            verifyingContract: current.asset,
+          },
+          {
+            Permit: [
+              { name: "owner", type: "address" },
+              { name: "spender", type: "address" },
+              { name: "value", type: "uint256" },
+              { name: "nonce", type: "uint256" },
+              { name: "deadline", type: "uint256" },
+            ],
+          },
+          {
+            owner: signer.address,
+            spender: current.address,
+            value: amount,
+            nonce,
+            deadline,
+          }
+        )
+      );
+
+      const tx: ContractTransactionResponse = await token.permit(
+        signer.address,
+        current.address,
+        amount,
+        deadline,
+        signature.v,
+        signature.r,
+        signature.s
+      );
+      await tx.wait();
+      return;
+    }
+
+    const tx = await asset.approve(current.address, amount);
+    await tx.wait();
+  };
+
+  // Check the call with staticCall first so reverts (paused, no liquidity,
+  // nothing to withdraw) are reported before the wallet asks to sign
+  const execute = async (
+    action: VaultAction,
+    amount: bigint,
+    options: { usePermit?: boolean } = {}
+  ) => {
+    setPending(action);
+    setError(null);
+    setTransactionHash(null);
+
+    try {
+      const contracts = await connectContracts();
+      const current = await load(contracts);
+      const { signer, vault } = contracts;
+      const owner = signer.address;
+
+      if (current.paused) {
+        throw new Error("The vault is paused");
+      }
+
+      // Assets the vault will pull from the wallet
+      const required =
+        action === "deposit"
+          ? amount
+          : action === "mint"
+            ? await vault.previewMint(amount)
+            : action === "depositAll"
+              ? current.assetBalance
+              : BigInt(0);
+      if (required > BigInt(0)) {
+        await ensureAllowance(
+          contracts,
+          current,
+          required,
+          !!options.usePermit
+        );
+        setPending(action);
+      }
+
+      let tx: ContractTransactionResponse;
+      switch (action) {
+        case "deposit":
+          await vault.deposit.staticCall(amount, owner);
+          tx = await vault.deposit(amount, owner);
+          break;
+        case "mint":
+          await vault.mint.staticCall(amount, owner);
+          tx = await vault.mint(amount, owner);
+          break;
+        case "withdraw":
+          await vault.withdraw.staticCall(amount, owner, owner);
+          tx = await vault.withdraw(amount, owner, owner);
+          break;
+        case "redeem":
+          await vault.redeem.staticCall(amount, owner, owner);
+          tx = await vault.redeem(amount, owner, owner);
+          break;
+        case "depositAll":
+          await vault.depositAll.staticCall();
+          tx = await vault.depositAll();
+          break;
+        case "withdrawAll":
+          await vault.withdrawAll.staticCall();
+          tx = await vault.withdrawAll();
+          break;
+      }
+
+      setTransactionHash(tx.hash);
+      await tx.wait();
+      await load(contracts);
+    } catch (err) {
+      setError(decodeRevertReason(err));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return {
+    state,
+    account,
+    pending,
+    transactionHash,
+    error,
+    refresh,
+    previewDeposit,
+    previewMint,
+    previewWithdraw,
+    previewRedeem,
+    deposit: (assets: bigint, usePermit?: boolean) =>
+      execute("deposit", assets, { usePermit }),
+    mint: (shares: bigint, usePermit?: boolean) =>
+      execute("mint", shares, { usePermit }),
+    withdraw: (assets: bigint) => execute("withdraw", assets),
+    redeem: (shares: bigint) => execute("redeem", shares),
+    depositAll: (usePermit?: boolean) =>
+      execute("depositAll", BigInt(0), { usePermit }),
+    withdrawAll: () => execute("withdrawAll", BigInt(0)),
+  };
+};
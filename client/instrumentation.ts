@@ -0,0 +1,9 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  // Warn early when the deployment manifest no longer matches the chain.
+  // Not awaited: an unreachable RPC node must not hold up startup.
+  const { checkDeployment } = await import("./lib/contracts/manifest");
+  void checkDeployment();
+}
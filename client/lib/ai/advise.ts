@@ -0,0 +1,105 @@
+import { InvestmentAdvice } from "../../types";
+import { AdviceRequest, AdvisorProvider } from "./provider";
+import { riskProfileIssues } from "./riskProfile";
+import { investmentAdviceSchema, SchemaIssue } from "./schema";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Thrown when the provider never produced advice that passes the schema
+export class AdviceValidationError extends Error {
+  constructor(
+    readonly attempts: number,
+    readonly issues: SchemaIssue[],
+    readonly raw: string
+  ) {
+    super(`AI response failed validation after ${attempts} attempt(s)`);
+    this.name = "AdviceValidationError";
+  }
+}
+
+export interface AdviceResult {
+  advice: InvestmentAdvice;
+  attempts: number;
+}
+
+// Strip markdown code fences models like to wrap JSON in
+export function cleanModelOutput(output: string): string {
+  let cleaned = output.trim();
+
+  if (cleaned.startsWith("```json")) {
+    cleaned = cleaned.replace(/^```json\s*/, "").replace(/\s*```$/, "");
+  } else if (cleaned.startsWith("```")) {
+    cleaned = cleaned.replace(/^```\s*/, "").replace(/\s*```$/, "");
+  }
+
+  return cleaned;
+}
+
+// Parse and validate model output; `advice` is set only when there are no issues
+export function parseAdvice(output: string): {
+  advice?: InvestmentAdvice;
+  issues: SchemaIssue[];
+} {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output);
+  } catch (error) {
+    return {
+      issues: [
+        {
+          path: "$",
+          message: `Response is not valid JSON: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        },
+      ],
+    };
+  }
+
+  const issues = investmentAdviceSchema.validate(parsed, "$");
+  return issues.length === 0
+    ? { advice: parsed as InvestmentAdvice, issues }
+    : { issues };
+}
+
+function maxAttempts(): number {
+  const configured = parseInt(process.env.AI_MAX_ATTEMPTS ?? "", 10);
+  return configured > 0 ? configured : DEFAULT_MAX_ATTEMPTS;
+}
+
+// Ask the provider for advice, feeding validation errors back to it until the
+// output passes the schema and respects the investor's risk profile, or the
+// attempt budget is spent.
+export async function generateValidatedAdvice(
+  provider: AdvisorProvider,
+  request: AdviceRequest,
+  attempts: number = maxAttempts()
+): Promise<AdviceResult> {
+  let currentRequest: AdviceRequest = request;
+  let raw = "";
+  let issues: SchemaIssue[] = [];
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    raw = cleanModelOutput(await provider.generateAdvice(currentRequest));
+
+    const result = parseAdvice(raw);
+    issues = result.advice
+      ? riskProfileIssues(result.advice, request.riskProfile)
+      : result.issues;
+    if (result.advice && issues.length === 0) {
+      return { advice: result.advice, attempts: attempt };
+    }
+
+    console.warn(
+      `Advice attempt ${attempt}/${attempts} from ${provider.name} failed validation:`,
+      issues
+    );
+
+    currentRequest = {
+      ...request,
+      repair: { previousOutput: raw, issues },
+    };
+  }
+
+  throw new AdviceValidationError(attempts, issues, raw);
+}
@@ -0,0 +1,93 @@
+import { InvestmentHorizon, RiskProfile, RiskTolerance } from "../../types";
+import { AdviceRepair, AdviceRequest } from "./provider";
+
+// Recorded with each suggestion; bump whenever the prompt wording changes
+export const PROMPT_VERSION = "advice-v2";
+
+const HORIZON_DESCRIPTIONS: Record<InvestmentHorizon, string> = {
+  short:
+    "short-term investment (under 3 months, e.g., yield farming or holding)",
+  medium: "medium-term investment (3 to 12 months)",
+  long: "long-term investment (over a year)",
+};
+
+const TOLERANCE_DESCRIPTIONS: Record<RiskTolerance, string> = {
+  conservative:
+    "capital preservation first: mostly stablecoins, low volatility, and only small positions in volatile assets",
+  moderate:
+    "best value: high profit potential, low volatility, and balanced risk",
+  aggressive:
+    "growth first: higher volatility is acceptable in exchange for higher expected returns",
+};
+
+// Prompt shared by the model-backed providers
+export function buildAdvicePrompt({
+  amount,
+  baseToken,
+  date,
+  riskProfile,
+  repair,
+}: AdviceRequest): string {
+  const prompt = `
+      You are a crypto investment advisor on ${date}. The user has ${amount} ${baseToken} to invest. Suggest a diversified portfolio for ${HORIZON_DESCRIPTIONS[riskProfile.horizon]}, with a ${riskProfile.riskTolerance} risk tolerance, focusing on ${TOLERANCE_DESCRIPTIONS[riskProfile.riskTolerance]}.
+
+      Investor constraints:
+${buildConstraintList(riskProfile)}
+
+      Provide:
+      1. Allocation breakdown as an array (e.g., [{"token": "USDT", "percentage": 50, "amount": 250, "tokenAddress": "0x..."}]).
+      2. Reasons based on current market trends, prices, 24h changes, and yields.
+      3. Total estimated value after allocation.
+      4. Warnings (e.g., market volatility).
+
+      Respond ONLY in valid JSON format:
+      {
+        "allocations": [{"token": "string", "percentage": number, "amount": number, "tokenAddress": "string"}],
+        "reasons": "string",
+        "estimatedValue": ${amount},
+        "warnings": "string"
+      }
+
+      Do not include any text before or after the JSON.
+    `;
+
+  return repair ? prompt + buildRepairSection(repair) : prompt;
+}
+
+function buildConstraintList({
+  maxSingleAssetPercent,
+  excludedTokens,
+  preferredCategories,
+}: RiskProfile): string {
+  const constraints = [
+    `No single token may exceed ${maxSingleAssetPercent}% of the portfolio.`,
+  ];
+  if (excludedTokens.length > 0) {
+    constraints.push(
+      `Never include these tokens: ${excludedTokens.join(", ")}.`
+    );
+  }
+  if (preferredCategories.length > 0) {
+    constraints.push(
+      `Prefer tokens in these categories: ${preferredCategories.join(", ")}.`
+    );
+  }
+  return constraints.map((line) => `      - ${line}`).join("\n");
+}
+
+// Appended on retries so the model can correct its previous answer
+function buildRepairSection({ previousOutput, issues }: AdviceRepair): string {
+  const issueList = issues
+    .map((issue) => `      - ${issue.path}: ${issue.message}`)
+    .join("\n");
+
+  return `
+      Your previous response was rejected:
+      ${previousOutput}
+
+      Validation errors:
+${issueList}
+
+      Return a corrected response that fixes every error above, in the same JSON format.
+    `;
+}
@@ -0,0 +1,62 @@
+import { AdvisorProviderName, RiskProfile } from "../../types";
+import { GeminiProvider } from "./providers/gemini";
+import { OpenAICompatibleProvider } from "./providers/openai";
+import { RuleBasedProvider } from "./providers/ruleBased";
+import { SchemaIssue } from "./schema";
+
+// Previous invalid output and what was wrong with it, sent on retries
+export interface AdviceRepair {
+  previousOutput: string;
+  issues: SchemaIssue[];
+}
+
+// Input every provider receives when asked for advice
+export interface AdviceRequest {
+  amount: number;
+  baseToken: string;
+  date: string;
+  riskProfile: RiskProfile;
+  repair?: AdviceRepair;
+}
+
+// A source of investment advice. Implementations return the raw text of the
+// advice, which must be a JSON-encoded InvestmentAdvice.
+export interface AdvisorProvider {
+  readonly name: AdvisorProviderName;
+  readonly model: string;
+  generateAdvice(request: AdviceRequest): Promise<string>;
+}
+
+export const ADVISOR_PROVIDERS: AdvisorProviderName[] = [
+  "gemini",
+  "openai",
+  "rule-based",
+];
+
+export function isAdvisorProviderName(
+  value: unknown
+): value is AdvisorProviderName {
+  return (
+    typeof value === "string" &&
+    ADVISOR_PROVIDERS.includes(value as AdvisorProviderName)
+  );
+}
+
+// Resolve the provider for a request: an explicit per-request choice wins,
+// then AI_PROVIDER from the environment, then Gemini.
+export function getAdvisorProvider(
+  requested?: AdvisorProviderName
+): AdvisorProvider {
+  const fromEnv = process.env.AI_PROVIDER;
+  const name: AdvisorProviderName =
+    requested ?? (isAdvisorProviderName(fromEnv) ? fromEnv : "gemini");
+
+  switch (name) {
+    case "gemini":
+      return new GeminiProvider();
+    case "openai":
+      return new OpenAICompatibleProvider();
+    case "rule-based":
+      return new RuleBasedProvider();
+  }
+}
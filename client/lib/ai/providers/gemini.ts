@@ -0,0 +1,25 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { AdviceRequest, AdvisorProvider } from "../provider";
+import { buildAdvicePrompt } from "../prompt";
+
+export class GeminiProvider implements AdvisorProvider {
+  readonly name = "gemini" as const;
+  readonly model: string;
+  private readonly genAI: GoogleGenerativeAI;
+
+  constructor() {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY is not configured");
+    }
+
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.model = process.env.GEMINI_MODEL || "gemini-1.5-flash";
+  }
+
+  async generateAdvice(request: AdviceRequest): Promise<string> {
+    const model = this.genAI.getGenerativeModel({ model: this.model });
+    const result = await model.generateContent(buildAdvicePrompt(request));
+    return result.response.text();
+  }
+}
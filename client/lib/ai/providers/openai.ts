@@ -0,0 +1,61 @@
+import { AdviceRequest, AdvisorProvider } from "../provider";
+import { buildAdvicePrompt } from "../prompt";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+// Talks to any server exposing the OpenAI chat completions API: OpenAI itself,
+// or a local model server (Ollama, LM Studio, vLLM) via OPENAI_BASE_URL.
+export class OpenAICompatibleProvider implements AdvisorProvider {
+  readonly name = "openai" as const;
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor() {
+    this.baseUrl = (
+      process.env.OPENAI_BASE_URL || "https://api.openai.com/v1"
+    ).replace(/\/+$/, "");
+    this.apiKey = process.env.OPENAI_API_KEY;
+    this.model = process.env.OPENAI_MODEL || "gpt-4o-mini";
+
+    // Only the hosted API requires a key; local servers usually do not
+    if (!this.apiKey && !process.env.OPENAI_BASE_URL) {
+      throw new Error("OPENAI_API_KEY is not configured");
+    }
+  }
+
+  async generateAdvice(request: AdviceRequest): Promise<string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: "user", content: buildAdvicePrompt(request) }],
+        temperature: 0.2,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `OpenAI-compatible API returned ${response.status}: ${await response.text()}`
+      );
+    }
+
+    const data: ChatCompletionResponse = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("OpenAI-compatible API returned no message content");
+    }
+
+    return content;
+  }
+}
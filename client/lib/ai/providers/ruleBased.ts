@@ -0,0 +1,205 @@
+import {
+  InvestmentAdvice,
+  RiskTolerance,
+  TokenAllocation,
+} from "../../../types";
+import { AdviceRequest, AdvisorProvider } from "../provider";
+import { RiskProfileError } from "../riskProfile";
+
+interface BasketToken {
+  token: string;
+  tokenAddress: string;
+}
+
+const TOKENS: Record<string, BasketToken> = {
+  USDT: {
+    token: "USDT",
+    tokenAddress: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+  },
+  USDC: {
+    token: "USDC",
+    tokenAddress: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+  },
+  WETH: {
+    token: "WETH",
+    tokenAddress: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+  },
+  DAI: {
+    token: "DAI",
+    tokenAddress: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
+  },
+  WBTC: {
+    token: "WBTC",
+    tokenAddress: "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599",
+  },
+  LINK: {
+    token: "LINK",
+    tokenAddress: "0x514910771AF9Ca656af840dff83E8264EcF986CA",
+  },
+  AAVE: {
+    token: "AAVE",
+    tokenAddress: "0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9",
+  },
+};
+
+// Stablecoins in order of preference for the stable leg
+const STABLES = [TOKENS.USDC, TOKENS.USDT, TOKENS.DAI];
+
+// Non-stable legs by risk tolerance, as [token, percentage]. The stable leg
+// takes whatever is left of 100%.
+const RISK_LEGS: Record<RiskTolerance, [BasketToken, number][]> = {
+  conservative: [
+    [TOKENS.WETH, 20],
+    [TOKENS.WBTC, 10],
+  ],
+  moderate: [
+    [TOKENS.WETH, 35],
+    [TOKENS.WBTC, 25],
+  ],
+  aggressive: [
+    [TOKENS.WETH, 35],
+    [TOKENS.WBTC, 30],
+    [TOKENS.LINK, 10],
+    [TOKENS.AAVE, 10],
+  ],
+};
+
+// Below this amount a third position is not worth the swap costs
+const SMALL_AMOUNT_THRESHOLD = 100;
+
+// Cap every weight at `limit` and hand the excess to later positions, then to
+// `reserve` tokens, each up to the limit. Weights are whole percentages.
+function capWeights(
+  weights: [BasketToken, number][],
+  limit: number,
+  reserve: BasketToken[]
+): [BasketToken, number][] {
+  const capped: [BasketToken, number][] = weights.map(([token, weight]) => [
+    token,
+    Math.min(weight, limit),
+  ]);
+  let remaining = 100 - capped.reduce((sum, [, weight]) => sum + weight, 0);
+
+  for (const entry of capped) {
+    const added = Math.min(limit - entry[1], remaining);
+    entry[1] += added;
+    remaining -= added;
+  }
+  for (const token of reserve) {
+    if (remaining <= 0) break;
+    const added = Math.min(limit, remaining);
+    capped.push([token, added]);
+    remaining -= added;
+  }
+
+  if (remaining > 0) {
+    throw new RiskProfileError([
+      {
+        path: "$.riskProfile.maxSingleAssetPercent",
+        message: `At most ${limit}% per token needs at least ${Math.ceil(
+          100 / limit
+        )} tokens, but excludedTokens leaves only ${capped.length}`,
+      },
+    ]);
+  }
+  return capped;
+}
+
+// Deterministic, offline advisor: a fixed stable/majors basket whose shape
+// depends on the amount, base token and risk profile. Used in CI and
+// air-gapped setups.
+export class RuleBasedProvider implements AdvisorProvider {
+  readonly name = "rule-based" as const;
+  readonly model = "rule-based-v1";
+
+  async generateAdvice(request: AdviceRequest): Promise<string> {
+    return JSON.stringify(this.buildAdvice(request));
+  }
+
+  buildAdvice({
+    amount,
+    baseToken,
+    riskProfile,
+  }: AdviceRequest): InvestmentAdvice {
+    // The fixed baskets have no notion of token categories
+    if (riskProfile.preferredCategories.length > 0) {
+      throw new RiskProfileError([
+        {
+          path: "$.riskProfile.preferredCategories",
+          message:
+            "Not supported by the rule-based provider; leave it empty or use an AI provider",
+        },
+      ]);
+    }
+
+    const allowed = (token: BasketToken) =>
+      !riskProfile.excludedTokens.includes(token.token);
+
+    // Keep the stable leg in the base token when it is a supported stablecoin
+    const base = baseToken.trim().toUpperCase();
+    const stable = [
+      ...STABLES.filter((token) => token.token === base),
+      ...STABLES,
+    ].find(allowed);
+
+    let legs = RISK_LEGS[riskProfile.riskTolerance].filter(([token]) =>
+      allowed(token)
+    );
+    if (amount < SMALL_AMOUNT_THRESHOLD) {
+      // One volatile leg only, sized to what the tolerance allows
+      legs = legs
+        .slice(0, 1)
+        .map(([token]) => [
+          token,
+          riskProfile.riskTolerance === "conservative" ? 20 : 30,
+        ]);
+    }
+
+    const volatile = legs.reduce((sum, [, weight]) => sum + weight, 0);
+    const basket: [BasketToken, number][] = stable
+      ? [[stable, 100 - volatile], ...legs]
+      : legs.map(([token, weight]) => [
+          token,
+          Math.round((weight * 100) / volatile),
+        ]);
+    if (!stable && basket.length > 0) {
+      // Absorb rounding so the basket still sums to 100
+      basket[0][1] += 100 - basket.reduce((sum, [, weight]) => sum + weight, 0);
+    }
+
+    // Extra positions for when the single-asset limit leaves a shortfall
+    const reserve = Object.values(TOKENS).filter(
+      (token) => allowed(token) && !basket.some(([held]) => held === token)
+    );
+    const weights = capWeights(
+      basket,
+      Math.floor(riskProfile.maxSingleAssetPercent),
+      reserve
+    );
+
+    const allocations: TokenAllocation[] = weights.map(
+      ([{ token, tokenAddress }, percentage]) => ({
+        token,
+        percentage,
+        amount: (amount * percentage) / 100,
+        tokenAddress,
+      })
+    );
+
+    const anchor = stable
+      ? `a ${weights[0][1]}% ${stable.token} position anchors the portfolio against volatility, with the remainder split across large-cap assets for growth`
+      : "stablecoins are excluded, so the portfolio is spread across large-cap assets";
+    const limit =
+      riskProfile.maxSingleAssetPercent < 100
+        ? `, with no token above ${riskProfile.maxSingleAssetPercent}%`
+        : "";
+
+    return {
+      allocations,
+      reasons: `Rule-based ${riskProfile.riskTolerance} allocation for ${amount} ${base} over a ${riskProfile.horizon}-term horizon: ${anchor}${limit}. This suggestion does not use live market data.`,
+      estimatedValue: amount,
+      warnings:
+        "Generated offline without market data. Crypto assets are volatile and the value of non-stable positions can fall significantly.",
+    };
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  InvestmentAdvice,
+  InvestmentHorizon,
+  RiskProfile,
+  RiskTolerance,
+} from "../../types";
+import { getTokens } from "../tokens/registry";
+import {
+  array,
+  number,
+  object,
+  oneOf,
+  optional,
+  Schema,
+  SchemaIssue,
+  string,
+} from "./schema";
+
+export const RISK_TOLERANCES: RiskTolerance[] = [
+  "conservative",
+  "moderate",
+  "aggressive",
+];
+
+export const INVESTMENT_HORIZONS: InvestmentHorizon[] = [
+  "short",
+  "medium",
+  "long",
+];
+
+// Lowest single-asset limit accepted. At 20% a basket already needs five
+// positions, most of the tokens the rule-based provider knows; the strategy
+// itself accepts up to ten (MAX_ALLOCATIONS).
+export const MIN_SINGLE_ASSET_PERCENT = 20;
+
+// Applied field by field when a request leaves part of the profile out; these
+// reproduce the advisor's behavior from before profiles existed
+export const DEFAULT_RISK_PROFILE: RiskProfile = {
+  riskTolerance: "moderate",
+  horizon: "short",
+  maxSingleAssetPercent: 100,
+  excludedTokens: [],
+  preferredCategories: [],
+};
+
+// `riskProfile` in the /api/ai/suggest body; every field is optional
+export const riskProfileInputSchema: Schema<Partial<RiskProfile>> = object({
+  riskTolerance: optional(oneOf(RISK_TOLERANCES)),
+  horizon: optional(oneOf(INVESTMENT_HORIZONS)),
+  maxSingleAssetPercent: optional(
+    number({ min: MIN_SINGLE_ASSET_PERCENT, max: 100 })
+  ),
+  excludedTokens: optional(
+    array(
+      string({
+        pattern: /^[A-Za-z0-9.]{1,16}$/,
+        patternMessage: "Must be a token symbol",
+      }),
+      { maxItems: 20 }
+    )
+  ),
+  preferredCategories: optional(
+    array(string({ nonEmpty: true }), { maxItems: 10 })
+  ),
+});
+
+// Thrown by a provider that cannot honor a schema-valid profile. The request
+// is at fault, so /api/ai/suggest answers 400 with the issues.
+export class RiskProfileError extends Error {
+  constructor(readonly issues: SchemaIssue[]) {
+    super("Risk profile cannot be satisfied");
+    this.name = "RiskProfileError";
+  }
+}
+
+// Categories are the tags used in the token registry for `chainId`
+export function getTokenCategories(chainId: number): string[] {
+  return Array.from(
+    new Set(getTokens(chainId).flatMap((token) => token.tags))
+  ).sort();
+}
+
+// Validate a request's profile against the categories of `chainId` and fill
+// in defaults. Returns the issues instead when the input is invalid.
+export function resolveRiskProfile(
+  input: unknown,
+  chainId: number
+): { profile: RiskProfile; issues: [] } | { issues: SchemaIssue[] } {
+  if (input === undefined) {
+    return { profile: DEFAULT_RISK_PROFILE, issues: [] };
+  }
+
+  const issues = riskProfileInputSchema.validate(input, "$.riskProfile");
+  if (issues.length > 0) return { issues };
+
+  const partial = input as Partial<RiskProfile>;
+  const categories = getTokenCategories(chainId);
+  const preferredCategories = (partial.preferredCategories ?? []).map(
+    (category) => category.trim().toLowerCase()
+  );
+  preferredCategories.forEach((category, index) => {
+    if (!categories.includes(category)) {
+      issues.push({
+        path: `$.riskProfile.preferredCategories[${index}]`,
+        message: `Must be one of: ${categories.join(", ")}`,
+      });
+    }
+  });
+  if (issues.length > 0) return { issues };
+
+  return {
+    profile: {
+      riskTolerance:
+        partial.riskTolerance ?? DEFAULT_RISK_PROFILE.riskTolerance,
+      horizon: partial.horizon ?? DEFAULT_RISK_PROFILE.horizon,
+      maxSingleAssetPercent:
+        partial.maxSingleAssetPercent ??
+        DEFAULT_RISK_PROFILE.maxSingleAssetPercent,
+      excludedTokens: Array.from(
+        new Set(
+          (partial.excludedTokens ?? []).map((token) => token.toUpperCase())
+        )
+      ),
+      preferredCategories: Array.from(new Set(preferredCategories)),
+    },
+    issues: [],
+  };
+}
+
+// Hard limits of the profile that schema-valid advice can still break; fed
+// back to the provider like schema issues
+export function riskProfileIssues(
+  advice: InvestmentAdvice,
+  profile: RiskProfile
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  advice.allocations.forEach((allocation, index) => {
+    const path = `$.allocations[${index}]`;
+    if (profile.excludedTokens.includes(allocation.token.toUpperCase())) {
+      issues.push({
+        path: `${path}.token`,
+        message: `${allocation.token} is excluded by the investor`,
+      });
+    }
+    if (allocation.percentage > profile.maxSingleAssetPercent + 0.01) {
+      issues.push({
+        path: `${path}.percentage`,
+        message: `Must be at most ${profile.maxSingleAssetPercent} (single-asset limit)`,
+      });
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,212 @@
+import { InvestmentAdvice, SchemaIssue } from "../../types";
+
+export type { SchemaIssue };
+
+export interface Schema<T> {
+  // Phantom field so inferred types survive composition
+  readonly _type?: T;
+  // Set by optional(): object() accepts the field being absent
+  readonly optional?: boolean;
+  validate(value: unknown, path: string): SchemaIssue[];
+}
+
+interface StringOptions {
+  nonEmpty?: boolean;
+  pattern?: RegExp;
+  patternMessage?: string;
+}
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+}
+
+interface ArrayOptions {
+  minItems?: number;
+  maxItems?: number;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+export function string(options: StringOptions = {}): Schema<string> {
+  return {
+    validate(value, path) {
+      if (typeof value !== "string") {
+        return [{ path, message: `Expected string, got ${describe(value)}` }];
+      }
+      if (options.nonEmpty && !value.trim()) {
+        return [{ path, message: "Must not be empty" }];
+      }
+      if (options.pattern && !options.pattern.test(value)) {
+        return [
+          {
+            path,
+            message:
+              options.patternMessage ?? `Must match ${options.pattern.source}`,
+          },
+        ];
+      }
+      return [];
+    },
+  };
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+  return {
+    validate(value, path) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return [
+          { path, message: `Expected finite number, got ${describe(value)}` },
+        ];
+      }
+      if (options.min !== undefined) {
+        if (options.exclusiveMin && value <= options.min) {
+          return [{ path, message: `Must be greater than ${options.min}` }];
+        }
+        if (!options.exclusiveMin && value < options.min) {
+          return [{ path, message: `Must be at least ${options.min}` }];
+        }
+      }
+      if (options.max !== undefined && value > options.max) {
+        return [{ path, message: `Must be at most ${options.max}` }];
+      }
+      return [];
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    validate(value, path) {
+      return typeof value === "boolean"
+        ? []
+        : [{ path, message: `Expected boolean, got ${describe(value)}` }];
+    },
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    validate(value, path) {
+      return values.includes(value as T)
+        ? []
+        : [{ path, message: `Must be one of: ${values.join(", ")}` }];
+    },
+  };
+}
+
+// Field that may be missing (or undefined) but is validated when present
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    optional: true,
+    validate(value, path) {
+      return value === undefined ? [] : schema.validate(value, path);
+    },
+  };
+}
+
+export function array<T>(
+  items: Schema<T>,
+  options: ArrayOptions = {}
+): Schema<T[]> {
+  return {
+    validate(value, path) {
+      if (!Array.isArray(value)) {
+        return [{ path, message: `Expected array, got ${describe(value)}` }];
+      }
+      const issues: SchemaIssue[] = [];
+      if (options.minItems !== undefined && value.length < options.minItems) {
+        issues.push({
+          path,
+          message: `Must contain at least ${options.minItems} item(s)`,
+        });
+      }
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        issues.push({
+          path,
+          message: `Must contain at most ${options.maxItems} item(s)`,
+        });
+      }
+      value.forEach((item, index) => {
+        issues.push(...items.validate(item, `${path}[${index}]`));
+      });
+      return issues;
+    },
+  };
+}
+
+// Object schema. `check` runs only when every field is structurally valid and
+// reports cross-field rules (e.g. percentages summing to 100).
+export function object<T>(
+  fields: { [K in keyof T]: Schema<T[K]> },
+  check?: (value: T, path: string) => SchemaIssue[]
+): Schema<T> {
+  return {
+    validate(value, path) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return [{ path, message: `Expected object, got ${describe(value)}` }];
+      }
+      const record = value as Record<string, unknown>;
+      const issues: SchemaIssue[] = [];
+      for (const key of Object.keys(fields) as (keyof T & string)[]) {
+        const fieldPath = `${path}.${key}`;
+        if (!(key in record)) {
+          if (fields[key].optional) continue;
+          issues.push({
+            path: fieldPath,
+            message: "Required field is missing",
+          });
+          continue;
+        }
+        issues.push(...fields[key].validate(record[key], fieldPath));
+      }
+      if (issues.length === 0 && check) {
+        issues.push(...check(value as T, path));
+      }
+      return issues;
+    },
+  };
+}
+
+// =================================
+// Investment advice schema
+// =================================
+
+export const tokenAllocationSchema = object({
+  token: string({ nonEmpty: true }),
+  percentage: number({ min: 0, exclusiveMin: true, max: 100 }),
+  amount: number({ min: 0 }),
+  tokenAddress: string({
+    pattern: /^0x[a-fA-F0-9]{40}$/,
+    patternMessage: "Must be a 0x-prefixed 40 hex character address",
+  }),
+});
+
+export const investmentAdviceSchema: Schema<InvestmentAdvice> = object(
+  {
+    allocations: array(tokenAllocationSchema, { minItems: 1 }),
+    reasons: string(),
+    estimatedValue: number({ min: 0 }),
+    warnings: string(),
+  },
+  (advice, path) => {
+    const total = advice.allocations.reduce(
+      (sum, allocation) => sum + allocation.percentage,
+      0
+    );
+    if (Math.abs(total - 100) > 0.01) {
+      return [
+        {
+          path: `${path}.allocations`,
+          message: `Percentages must sum to 100, got ${total.toFixed(2)}`,
+        },
+      ];
+    }
+    return [];
+  }
+);
@@ -0,0 +1,46 @@
+import crypto from "crypto";
+import { AuthIdentity, AuthRole } from "../../types";
+import { isAuthRole } from "./roles";
+
+interface ApiKeyEntry {
+  name: string;
+  role: AuthRole;
+  digest: Buffer;
+}
+
+let cachedKeys: ApiKeyEntry[] | null = null;
+
+function digest(value: string): Buffer {
+  return crypto.createHash("sha256").update(value).digest();
+}
+
+// API_KEYS is a comma-separated list of `name:role:key` entries, e.g.
+// `rebalancer:operator:sk_live_abc,dashboard:viewer:sk_live_def`
+function loadApiKeys(): ApiKeyEntry[] {
+  if (cachedKeys) return cachedKeys;
+
+  cachedKeys = (process.env.API_KEYS ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, role, ...rest] = entry.split(":");
+      const key = rest.join(":");
+      if (!name || !key || !isAuthRole(role)) {
+        throw new Error(`Invalid API_KEYS entry for "${name}"`);
+      }
+      return { name, role, digest: digest(key) };
+    });
+  return cachedKeys;
+}
+
+// Compare digests in constant time so response timing does not leak keys
+export function findApiKeyIdentity(key: string): AuthIdentity | null {
+  const candidate = digest(key);
+  const entry = loadApiKeys().find((apiKey) =>
+    crypto.timingSafeEqual(apiKey.digest, candidate)
+  );
+  return entry
+    ? { id: `key:${entry.name}`, role: entry.role, method: "api-key" }
+    : null;
+}
@@ -0,0 +1,44 @@
+import { NextRequest } from "next/server";
+import { AuthIdentity, AuthRole } from "../../types";
+import { findApiKeyIdentity } from "./apiKeys";
+import { hasRole } from "./roles";
+import { SESSION_COOKIE, verifySessionToken } from "./session";
+
+export { hasRole, isAuthRole } from "./roles";
+
+// Raised when a request lacks the identity or role a route requires
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    readonly status: 401 | 403
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// Resolve the caller from an API key (`Authorization: Bearer <key>` or
+// `X-API-Key`) or, failing that, the wallet session cookie
+export function authenticate(req: NextRequest): AuthIdentity | null {
+  const authorization = req.headers.get("authorization");
+  const apiKey = authorization?.startsWith("Bearer ")
+    ? authorization.slice("Bearer ".length).trim()
+    : req.headers.get("x-api-key");
+  if (apiKey) {
+    return findApiKeyIdentity(apiKey);
+  }
+
+  const session = req.cookies.get(SESSION_COOKIE)?.value;
+  return session ? verifySessionToken(session) : null;
+}
+
+export function requireRole(req: NextRequest, role: AuthRole): AuthIdentity {
+  const identity = authenticate(req);
+  if (!identity) {
+    throw new AuthError("Authentication required", 401);
+  }
+  if (!hasRole(identity.role, role)) {
+    throw new AuthError(`This action requires the ${role} role`, 403);
+  }
+  return identity;
+}
@@ -0,0 +1,48 @@
+// In-memory sliding-window rate limiter keyed by caller identity. State is
+// per process, which is enough to protect the AI quota from a single client.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+const windows = new Map<string, number[]>();
+
+export function checkRateLimit(
+  key: string,
+  limit: number,
+  windowMs: number
+): RateLimitResult {
+  const now = Date.now();
+  const recent = (windows.get(key) ?? []).filter(
+    (timestamp) => timestamp > now - windowMs
+  );
+
+  if (recent.length >= limit) {
+    windows.set(key, recent);
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: Math.ceil((recent[0] + windowMs - now) / 1000),
+    };
+  }
+
+  recent.push(now);
+  windows.set(key, recent);
+  return {
+    allowed: true,
+    remaining: limit - recent.length,
+    retryAfterSeconds: 0,
+  };
+}
+
+// AI_RATE_LIMIT suggestions per AI_RATE_LIMIT_WINDOW seconds (10 per minute by default)
+export function getAdviceRateLimit(): { limit: number; windowMs: number } {
+  const limit = parseInt(process.env.AI_RATE_LIMIT ?? "", 10);
+  const windowSeconds = parseInt(process.env.AI_RATE_LIMIT_WINDOW ?? "", 10);
+  return {
+    limit: limit > 0 ? limit : 10,
+    windowMs: (windowSeconds > 0 ? windowSeconds : 60) * 1000,
+  };
+}
@@ -0,0 +1,12 @@
+import { AuthRole } from "../../types";
+
+export const AUTH_ROLES: AuthRole[] = ["viewer", "advisor", "operator"];
+
+export function isAuthRole(value: unknown): value is AuthRole {
+  return AUTH_ROLES.includes(value as AuthRole);
+}
+
+// Roles are ordered, so an operator may do anything an advisor can
+export function hasRole(role: AuthRole, required: AuthRole): boolean {
+  return AUTH_ROLES.indexOf(role) >= AUTH_ROLES.indexOf(required);
+}
@@ -0,0 +1,75 @@
+import crypto from "crypto";
+import { AuthIdentity, AuthRole } from "../../types";
+import { isAuthRole } from "./roles";
+
+export const SESSION_COOKIE = "advisor_session";
+
+const DEFAULT_SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+interface SessionPayload {
+  sub: string;
+  role: AuthRole;
+  exp: number; // unix seconds
+}
+
+// Sessions are stateless tokens signed with AUTH_SECRET; without a secret,
+// wallet sign-in is disabled and only API keys are accepted.
+function getSecret(): string | null {
+  return process.env.AUTH_SECRET || null;
+}
+
+export function isSessionAuthEnabled(): boolean {
+  return getSecret() !== null;
+}
+
+export function getSessionTtlSeconds(): number {
+  const configured = parseInt(process.env.AUTH_SESSION_TTL ?? "", 10);
+  return configured > 0 ? configured : DEFAULT_SESSION_TTL_SECONDS;
+}
+
+function sign(data: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+export function createSessionToken(address: string, role: AuthRole): string {
+  const secret = getSecret();
+  if (!secret) {
+    throw new Error("AUTH_SECRET is not configured");
+  }
+
+  const payload: SessionPayload = {
+    sub: address.toLowerCase(),
+    role,
+    exp: Math.floor(Date.now() / 1000) + getSessionTtlSeconds(),
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data, secret)}`;
+}
+
+// Identity for a valid, unexpired token; null for anything else
+export function verifySessionToken(token: string): AuthIdentity | null {
+  const secret = getSecret();
+  const [data, signature] = token.split(".");
+  if (!secret || !data || !signature) return null;
+
+  const expected = Buffer.from(sign(data, secret));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  try {
+    const payload: SessionPayload = JSON.parse(
+      Buffer.from(data, "base64url").toString("utf8")
+    );
+    if (!isAuthRole(payload.role) || payload.exp * 1000 <= Date.now()) {
+      return null;
+    }
+    return { id: payload.sub, role: payload.role, method: "session" };
+  } catch {
+    return null;
+  }
+}
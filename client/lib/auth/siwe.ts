@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+import { AuthRole } from "../../types";
+import { parseSiweMessage } from "../../utils/siwe";
+import { isAuthRole } from "./roles";
+
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+// Outstanding sign-in nonces and when they expire. Each nonce is single-use.
+const nonces = new Map<string, number>();
+
+export function issueNonce(): string {
+  const now = Date.now();
+  for (const [nonce, expiresAt] of nonces) {
+    if (expiresAt <= now) nonces.delete(nonce);
+  }
+
+  const nonce = crypto.randomBytes(16).toString("hex");
+  nonces.set(nonce, now + NONCE_TTL_MS);
+  return nonce;
+}
+
+function consumeNonce(nonce: string): boolean {
+  const expiresAt = nonces.get(nonce);
+  nonces.delete(nonce);
+  return expiresAt !== undefined && expiresAt > Date.now();
+}
+
+// AUTH_ADDRESS_ROLES grants roles to wallets as `address:role` pairs; any
+// other wallet that signs in gets AUTH_DEFAULT_ROLE (viewer by default)
+export function roleForAddress(address: string): AuthRole {
+  const needle = address.toLowerCase();
+  for (const entry of (process.env.AUTH_ADDRESS_ROLES ?? "").split(",")) {
+    const [entryAddress, role] = entry.trim().split(":");
+    if (entryAddress?.toLowerCase() === needle && isAuthRole(role)) {
+      return role;
+    }
+  }
+
+  const fallback = process.env.AUTH_DEFAULT_ROLE;
+  return isAuthRole(fallback) ? fallback : "viewer";
+}
+
+// Raised when a sign-in message or signature is not acceptable
+export class SiweVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SiweVerificationError";
+  }
+}
+
+// Where a sign-in message must have been issued for
+export interface SiweExpectation {
+  domain: string; // host the app is served from
+  chainId: number;
+}
+
+// Check a signed sign-in message and return the checksummed signer address.
+// The nonce is only used up once everything else has been verified, so a
+// rejected attempt can be retried with the same nonce until it expires.
+export function verifySiweLogin(
+  message: string,
+  signature: string,
+  expected: SiweExpectation
+): string {
+  const parsed = parseSiweMessage(message);
+  if (!parsed) {
+    throw new SiweVerificationError("Malformed sign-in message");
+  }
+
+  if (parsed.domain !== expected.domain) {
+    throw new SiweVerificationError(
+      `Sign-in message is for ${parsed.domain}, not ${expected.domain}`
+    );
+  }
+
+  let uri: URL | null;
+  try {
+    uri = new URL(parsed.uri);
+  } catch {
+    uri = null;
+  }
+  if (
+    !uri ||
+    !["http:", "https:"].includes(uri.protocol) ||
+    uri.host !== expected.domain
+  ) {
+    throw new SiweVerificationError(
+      `Sign-in message URI ${parsed.uri} is not on ${expected.domain}`
+    );
+  }
+
+  if (parsed.chainId !== expected.chainId) {
+    throw new SiweVerificationError(
+      `Sign-in message is for chain ${parsed.chainId}, not ${expected.chainId}`
+    );
+  }
+
+  if (
+    parsed.expirationTime &&
+    new Date(parsed.expirationTime).getTime() <= Date.now()
+  ) {
+    throw new SiweVerificationError("Sign-in message has expired");
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(message, signature);
+  } catch {
+    throw new SiweVerificationError("Invalid signature");
+  }
+
+  if (signer.toLowerCase() !== parsed.address.toLowerCase()) {
+    throw new SiweVerificationError("Signature does not match the address");
+  }
+
+  if (!consumeNonce(parsed.nonce)) {
+    throw new SiweVerificationError("Unknown or expired nonce");
+  }
+
+  return signer;
+}
@@ -0,0 +1,212 @@
+import {
+  BacktestResult,
+  PricePoint,
+  RebalanceFrequency,
+  RebalanceRule,
+  TokenAllocation,
+} from "../../types";
+
+// Thrown when a backtest cannot run on the data available, e.g. missing or
+// non-overlapping price series
+export class BacktestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BacktestError";
+  }
+}
+
+export interface BacktestOptions {
+  rule: RebalanceRule;
+  initialValue: number;
+  swapFeeBps: number; // charged on the value of every trade
+  riskFreeRate: number; // annual, as a fraction
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+}
+
+// The strategy rebalances a position when it is more than 1% of total value
+// away from target (see _rebalancePortfolio)
+export const DEFAULT_REBALANCE_RULE: RebalanceRule = {
+  frequency: "weekly",
+  thresholdBps: 100,
+};
+
+const MIN_DAYS_BETWEEN: Record<RebalanceFrequency, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+  never: Infinity,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  (Date.parse(to) - Date.parse(from)) / DAY_MS;
+
+interface Position {
+  weight: number; // fraction of portfolio value
+  units: number;
+  prices: Map<string, number>;
+}
+
+// Simulate holding `allocations` over the days every price series covers.
+// Allocations are bought on the first day; weight not allocated stays in the
+// base asset as cash, as in the strategy. `prices` is keyed by token symbol;
+// tokens without a series are the base asset and are not traded.
+export function runBacktest(
+  allocations: TokenAllocation[],
+  prices: Record<string, PricePoint[]>,
+  options: BacktestOptions
+): BacktestResult {
+  const { rule, initialValue } = options;
+  const fee = options.swapFeeBps / 10000;
+
+  const positions: Position[] = allocations
+    .filter((allocation) => prices[allocation.token])
+    .map((allocation) => ({
+      weight: allocation.percentage / 100,
+      units: 0,
+      prices: new Map(
+        prices[allocation.token].map((point) => [point.date, point.price])
+      ),
+    }));
+
+  // Only days with a price for every traded token
+  const days = (
+    positions.length > 0
+      ? Array.from(positions[0].prices.keys()).filter((day) =>
+          positions.every((position) => position.prices.has(day))
+        )
+      : (Object.values(prices)[0]?.map((point) => point.date) ?? [])
+  )
+    .filter(
+      (day) =>
+        (!options.from || day >= options.from) &&
+        (!options.to || day <= options.to)
+    )
+    .sort();
+
+  if (days.length < 2) {
+    throw new BacktestError(
+      "Price data must overlap on at least two days for every token"
+    );
+  }
+
+  let cash = initialValue;
+  let fees = 0;
+  let traded = 0;
+  let rebalances = 0;
+
+  const valueOn = (day: string) =>
+    positions.reduce(
+      (sum, position) => sum + position.units * position.prices.get(day)!,
+      cash
+    );
+
+  // Move each position to target; sells first so purchases are funded.
+  // `threshold` is the drift, in base-asset value, that is tolerated.
+  const rebalance = (day: string, threshold: number) => {
+    const total = valueOn(day);
+    const trades = positions
+      .map((position) => {
+        const price = position.prices.get(day)!;
+        const delta = total * position.weight - position.units * price;
+        return { position, price, delta };
+      })
+      .filter(({ delta }) => Math.abs(delta) > threshold)
+      .sort((a, b) => a.delta - b.delta);
+
+    for (const { position, price, delta } of trades) {
+      const cost = Math.abs(delta) * fee;
+      if (delta < 0) {
+        position.units += delta / price;
+        cash += -delta - cost;
+      } else {
+        position.units += (delta - cost) / price;
+        cash -= delta;
+      }
+      fees += cost;
+    }
+    return trades.reduce((sum, { delta }) => sum + Math.abs(delta), 0);
+  };
+
+  rebalance(days[0], 0);
+
+  const equityCurve = [{ date: days[0], value: valueOn(days[0]) }];
+  let lastRebalance = days[0];
+
+  for (const day of days.slice(1)) {
+    if (daysBetween(lastRebalance, day) >= MIN_DAYS_BETWEEN[rule.frequency]) {
+      const total = valueOn(day);
+      const volume = rebalance(day, (total * rule.thresholdBps) / 10000);
+      if (volume > 0) {
+        traded += volume;
+        rebalances++;
+      }
+      lastRebalance = day;
+    }
+    equityCurve.push({ date: day, value: valueOn(day) });
+  }
+
+  return {
+    ...measure(equityCurve, initialValue, options.riskFreeRate),
+    initialValue,
+    turnover:
+      traded /
+      2 /
+      (equityCurve.reduce((sum, point) => sum + point.value, 0) /
+        equityCurve.length),
+    rebalances,
+    fees,
+    rule,
+    equityCurve,
+  };
+}
+
+// Return and risk metrics of a value series, annualized by calendar time.
+// The total return is measured from `initialValue`, so the fees of the first
+// purchase count against it.
+function measure(
+  curve: { date: string; value: number }[],
+  initialValue: number,
+  riskFreeRate: number
+) {
+  const first = curve[0];
+  const last = curve[curve.length - 1];
+  const years = daysBetween(first.date, last.date) / 365;
+
+  const returns = curve
+    .slice(1)
+    .map((point, index) => point.value / curve[index].value - 1);
+  const periodsPerYear = returns.length / years;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance =
+    returns.length > 1
+      ? returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) /
+        (returns.length - 1)
+      : 0;
+  const volatility = Math.sqrt(variance * periodsPerYear);
+
+  let peak = first.value;
+  let maxDrawdown = 0;
+  for (const { value } of curve) {
+    peak = Math.max(peak, value);
+    maxDrawdown = Math.max(maxDrawdown, 1 - value / peak);
+  }
+
+  const totalReturn = last.value / initialValue - 1;
+  return {
+    startDate: first.date,
+    endDate: last.date,
+    observations: curve.length,
+    finalValue: last.value,
+    totalReturn,
+    annualizedReturn: (1 + totalReturn) ** (1 / years) - 1,
+    volatility,
+    maxDrawdown,
+    sharpeRatio:
+      volatility > 0
+        ? (mean * periodsPerYear - riskFreeRate) / volatility
+        : null,
+  };
+}
@@ -0,0 +1,31 @@
+import { BacktestResult, PricePoint, TokenAllocation } from "../../types";
+import { BacktestError, BacktestOptions, runBacktest } from "./engine";
+import { loadPriceSeries } from "./prices";
+
+export { BacktestError, DEFAULT_REBALANCE_RULE } from "./engine";
+export type { BacktestOptions } from "./engine";
+
+// Backtest allocations against the local price files. Allocations to the base
+// token are held as cash at a constant price of 1, like the strategy's idle
+// asset balance.
+export function backtestAllocations(
+  allocations: TokenAllocation[],
+  baseToken: string,
+  options: BacktestOptions
+): BacktestResult {
+  const base = baseToken.trim().toUpperCase();
+  const prices: Record<string, PricePoint[]> = {};
+
+  for (const { token } of allocations) {
+    if (token.toUpperCase() === base) continue;
+    prices[token] = loadPriceSeries(token);
+  }
+
+  if (Object.keys(prices).length === 0) {
+    throw new BacktestError(
+      `Nothing to backtest: every allocation is held in ${base}`
+    );
+  }
+
+  return runBacktest(allocations, prices, options);
+}
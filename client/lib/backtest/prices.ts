@@ -0,0 +1,146 @@
+import fs from "fs";
+import path from "path";
+import { PricePoint } from "../../types";
+import { BacktestError } from "./engine";
+
+// Historical prices for backtests, one file per token symbol in
+// PRICE_DATA_DIR (default data/prices/). Prices are quoted in the base asset.
+//
+//   WETH.csv   date,price           (a header is required; "timestamp" and
+//              2024-01-01,2281.5     "close" are accepted as column names)
+//   WETH.json  [{"date": "2024-01-01", "price": 2281.5}, ...]
+//              or {"prices": [[1704067200000, 2281.5], ...]}
+//
+// Dates may be ISO strings or unix timestamps (seconds or milliseconds). Each
+// series is reduced to one price per UTC day, the last one seen.
+
+interface CachedSeries {
+  mtimeMs: number;
+  series: PricePoint[];
+}
+
+const cache = new Map<string, CachedSeries>();
+
+export function getPriceDataDir(): string {
+  return (
+    process.env.PRICE_DATA_DIR || path.join(process.cwd(), "data", "prices")
+  );
+}
+
+function toDay(value: unknown, file: string): string {
+  let time: number;
+  if (typeof value === "number" || /^\d+(\.\d+)?$/.test(String(value))) {
+    const numeric = Number(value);
+    // Treat anything before 1973 in milliseconds as seconds
+    time = numeric < 1e11 ? numeric * 1000 : numeric;
+  } else {
+    time = Date.parse(String(value));
+  }
+
+  // Finite times can still fall outside the range a Date can represent
+  const date = new Date(time);
+  if (!Number.isFinite(time) || Number.isNaN(date.getTime())) {
+    throw new BacktestError(`Invalid date "${value}" in ${file}`);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function toPrice(value: unknown, file: string): number {
+  const price = Number(value);
+  if (!Number.isFinite(price) || price <= 0) {
+    throw new BacktestError(`Invalid price "${value}" in ${file}`);
+  }
+  return price;
+}
+
+function parseCsv(content: string, file: string): [unknown, unknown][] {
+  const [header, ...rows] = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const columns = (header ?? "").split(",").map((c) => c.trim().toLowerCase());
+
+  const dateColumn = columns.findIndex(
+    (c) => c === "date" || c === "timestamp"
+  );
+  const priceColumn = columns.findIndex((c) => c === "price" || c === "close");
+  if (dateColumn < 0 || priceColumn < 0) {
+    throw new BacktestError(
+      `${file} needs a header with date (or timestamp) and price (or close) columns`
+    );
+  }
+
+  return rows.map((row) => {
+    const cells = row.split(",");
+    return [cells[dateColumn]?.trim(), cells[priceColumn]?.trim()];
+  });
+}
+
+function parseJson(content: string, file: string): [unknown, unknown][] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new BacktestError(`${file} is not valid JSON`);
+  }
+
+  if (Array.isArray(data)) {
+    return data.map((point) => [point?.date ?? point?.timestamp, point?.price]);
+  }
+  const prices = (data as { prices?: unknown })?.prices;
+  if (Array.isArray(prices)) {
+    return prices.map((point) =>
+      Array.isArray(point) ? [point[0], point[1]] : [undefined, undefined]
+    );
+  }
+  throw new BacktestError(
+    `${file} must be an array of {date, price} or an object with a prices array`
+  );
+}
+
+function findPriceFile(symbol: string): string | null {
+  const dir = getPriceDataDir();
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir);
+  } catch {
+    return null;
+  }
+
+  const wanted = [`${symbol}.csv`, `${symbol}.json`].map((name) =>
+    name.toLowerCase()
+  );
+  const match = files.find((name) => wanted.includes(name.toLowerCase()));
+  return match ? path.join(dir, match) : null;
+}
+
+// Daily prices for `symbol`, oldest first. Reloaded when the file changes.
+export function loadPriceSeries(symbol: string): PricePoint[] {
+  const file = findPriceFile(symbol.trim());
+  if (!file) {
+    throw new BacktestError(
+      `No price data for ${symbol} in ${getPriceDataDir()} (expected ${symbol}.csv or ${symbol}.json)`
+    );
+  }
+
+  const { mtimeMs } = fs.statSync(file);
+  const cached = cache.get(file);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.series;
+
+  const content = fs.readFileSync(file, "utf8");
+  const name = path.basename(file);
+  const raw = file.toLowerCase().endsWith(".csv")
+    ? parseCsv(content, name)
+    : parseJson(content, name);
+
+  const byDay = new Map<string, number>();
+  for (const [date, price] of raw) {
+    byDay.set(toDay(date, name), toPrice(price, name));
+  }
+
+  const series = Array.from(byDay, ([date, price]) => ({ date, price })).sort(
+    (a, b) => a.date.localeCompare(b.date)
+  );
+  cache.set(file, { mtimeMs, series });
+  return series;
+}
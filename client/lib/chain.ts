@@ -0,0 +1,38 @@
+import { ethers } from "ethers";
+
+let provider: ethers.JsonRpcProvider | null = null;
+
+// Shared read-only provider for server-side code, built from RPC_URL
+export function getProvider(): ethers.JsonRpcProvider {
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(
+      process.env.RPC_URL || "http://localhost:8545"
+    );
+  }
+  return provider;
+}
+
+let chainId: Promise<number> | null = null;
+
+// Chain the provider is connected to, queried once. A failed query is not
+// cached, so the next call retries.
+export function getChainId(): Promise<number> {
+  if (!chainId) {
+    chainId = getProvider()
+      .getNetwork()
+      .then((network) => Number(network.chainId));
+    chainId.catch(() => {
+      chainId = null;
+    });
+  }
+  return chainId;
+}
+
+// Chain the app resolves deployments and registry tokens for: CHAIN_ID when
+// set, as an explicit override, otherwise the chain the provider is connected to
+export async function getActiveChainId(): Promise<number> {
+  const configured = parseInt(process.env.CHAIN_ID ?? "", 10);
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : getChainId();
+}
@@ -0,0 +1,65 @@
+// Deployed contract addresses, the environment variables that hold them and
+// the deployment manifest format. Kept free of runtime dependencies so
+// scripts/deploy.ts can share it.
+
+export interface ContractAddresses {
+  vault?: string;
+  basketStrategy?: string;
+  simpleStrategy?: string;
+}
+
+export const CONTRACT_ADDRESS_ENV: Record<keyof ContractAddresses, string> = {
+  vault: "VAULT_ADDRESS",
+  basketStrategy: "BASKET_STRATEGY_ADDRESS",
+  simpleStrategy: "SIMPLE_STRATEGY_ADDRESS",
+};
+
+// Addresses set in the environment; they take precedence over the manifest
+export function readContractAddresses(
+  env: Record<string, string | undefined> = process.env
+): ContractAddresses {
+  return {
+    vault: env[CONTRACT_ADDRESS_ENV.vault],
+    basketStrategy: env[CONTRACT_ADDRESS_ENV.basketStrategy],
+    simpleStrategy: env[CONTRACT_ADDRESS_ENV.simpleStrategy],
+  };
+}
+
+// Manifests are written by scripts/deploy.ts to deployments/<network>.json at
+// the repository root, one per network
+export const DEPLOYMENTS_DIR_NAME = "deployments";
+
+export interface DeployedContract {
+  address: string;
+  abiHash: string; // keccak256 of the ABI in ethers' formatJson() form
+  codeHash: string; // keccak256 of the runtime bytecode after deployment
+}
+
+export interface DeployedToken {
+  symbol: string;
+  address: string;
+  decimals: number;
+  priceFeed?: string;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  blockNumber: number; // block of the first deployment transaction
+  deployer: string;
+  deployedAt: string;
+  // Keyed by ContractAddresses key for the contracts the client uses;
+  // supporting contracts (token, router, WETH) use their own names
+  contracts: Record<string, DeployedContract>;
+  tokens?: DeployedToken[];
+}
+
+export function manifestAddresses(
+  manifest: DeploymentManifest
+): ContractAddresses {
+  return {
+    vault: manifest.contracts.vault?.address,
+    basketStrategy: manifest.contracts.basketStrategy?.address,
+    simpleStrategy: manifest.contracts.simpleStrategy?.address,
+  };
+}
@@ -0,0 +1,40 @@
+import { ethers } from "ethers";
+import { StrategyConstraints } from "../../types";
+import { getBasketStrategy } from ".";
+
+// Read the limits setAllocations enforces, for the given token addresses
+export async function fetchStrategyConstraints(
+  tokenAddresses: string[]
+): Promise<StrategyConstraints> {
+  const strategy = await getBasketStrategy();
+  const unique = [
+    ...new Set(
+      tokenAddresses
+        .filter((address) => ethers.isAddress(address))
+        .map((address) => address.toLowerCase())
+    ),
+  ];
+
+  const [maxAllocations, maxBps, tokenStates] = await Promise.all([
+    strategy.MAX_ALLOCATIONS(),
+    strategy.MAX_BPS(),
+    Promise.all(
+      unique.map(async (address) => {
+        const [allowed, feed] = await Promise.all([
+          strategy.isTokenAllowed(address),
+          strategy.priceFeeds(address),
+        ]);
+        return [
+          address,
+          { allowed, hasPriceFeed: feed !== ethers.ZeroAddress },
+        ] as const;
+      })
+    ),
+  ]);
+
+  return {
+    maxAllocations: Number(maxAllocations),
+    maxBps: Number(maxBps),
+    tokens: Object.fromEntries(tokenStates),
+  };
+}
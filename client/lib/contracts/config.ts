@@ -0,0 +1,11 @@
+import { ContractConfig } from "../../types";
+
+// Browser-side: contract addresses and chain served by GET /api/contract
+export async function fetchContractConfig(): Promise<ContractConfig> {
+  const response = await fetch("/api/contract");
+  const data = await response.json();
+  if (!data.success) {
+    throw new Error(data.error);
+  }
+  return data.data;
+}
@@ -0,0 +1,90 @@
+import { ethers } from "ethers";
+import {
+  AggregatorV3Interface,
+  AggregatorV3Interface__factory,
+  AIBasketStrategy,
+  AIBasketStrategy__factory,
+  IERC20Metadata,
+  IERC20Metadata__factory,
+  SimpleStrategy,
+  SimpleStrategy__factory,
+  Vault,
+  Vault__factory,
+} from "@contracts";
+import { getProvider } from "../chain";
+import { ContractAddresses } from "./addresses";
+import { getContractAddresses } from "./manifest";
+
+// Typed contract service for server-side code. Bindings are generated by
+// TypeChain from the Hardhat artifacts (run `npm run compile:contracts`), so
+// any ABI change in contracts/ surfaces here as a type error.
+
+export type {
+  AggregatorV3Interface,
+  AIBasketStrategy,
+  IERC20Metadata,
+  SimpleStrategy,
+  Vault,
+};
+
+async function requireAddress(key: keyof ContractAddresses): Promise<string> {
+  const address = (await getContractAddresses())[key];
+  if (!address) {
+    throw new Error("Contract addresses not configured");
+  }
+  return address;
+}
+
+// Broadcasting with the server-held key is an explicit opt-in for automation
+export function isServerSigningEnabled(): boolean {
+  return process.env.ENABLE_SERVER_SIGNING === "true";
+}
+
+// Wallet for the server-held PRIVATE_KEY
+export function getServerSigner(): ethers.Wallet {
+  const privateKey = process.env.PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error("Private key not configured");
+  }
+  return new ethers.Wallet(privateKey, getProvider());
+}
+
+// Contracts at the addresses for the connected chain
+export async function getVault(
+  runner: ethers.ContractRunner = getProvider()
+): Promise<Vault> {
+  return Vault__factory.connect(await requireAddress("vault"), runner);
+}
+
+export async function getBasketStrategy(
+  runner: ethers.ContractRunner = getProvider()
+): Promise<AIBasketStrategy> {
+  return AIBasketStrategy__factory.connect(
+    await requireAddress("basketStrategy"),
+    runner
+  );
+}
+
+export async function getSimpleStrategy(
+  runner: ethers.ContractRunner = getProvider()
+): Promise<SimpleStrategy> {
+  return SimpleStrategy__factory.connect(
+    await requireAddress("simpleStrategy"),
+    runner
+  );
+}
+
+export function getERC20(
+  address: string,
+  runner: ethers.ContractRunner = getProvider()
+): IERC20Metadata {
+  return IERC20Metadata__factory.connect(address, runner);
+}
+
+// Chainlink-style price feed, as registered with AIBasketStrategy.setPriceFeed
+export function getPriceFeed(
+  address: string,
+  runner: ethers.ContractRunner = getProvider()
+): AggregatorV3Interface {
+  return AggregatorV3Interface__factory.connect(address, runner);
+}
@@ -0,0 +1,175 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import {
+  AIBasketStrategy__factory,
+  SimpleStrategy__factory,
+  Vault__factory,
+} from "@contracts";
+import { getActiveChainId, getChainId, getProvider } from "../chain";
+import {
+  CONTRACT_ADDRESS_ENV,
+  ContractAddresses,
+  DeploymentManifest,
+  DEPLOYMENTS_DIR_NAME,
+  manifestAddresses,
+  readContractAddresses,
+} from "./addresses";
+
+interface CachedManifest {
+  mtimeMs: number;
+  manifest: DeploymentManifest | null;
+}
+
+const cache = new Map<string, CachedManifest>();
+
+// ABIs the client was compiled against, to compare with the deployed ones
+const CLIENT_ABIS: Record<keyof ContractAddresses, ethers.InterfaceAbi> = {
+  vault: Vault__factory.abi,
+  basketStrategy: AIBasketStrategy__factory.abi,
+  simpleStrategy: SimpleStrategy__factory.abi,
+};
+
+// DEPLOYMENTS_DIR, or deployments/ next to the client
+export function getDeploymentsDir(): string {
+  return (
+    process.env.DEPLOYMENTS_DIR ||
+    path.join(process.cwd(), "..", DEPLOYMENTS_DIR_NAME)
+  );
+}
+
+function readManifest(file: string): DeploymentManifest | null {
+  const { mtimeMs } = fs.statSync(file);
+  const cached = cache.get(file);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.manifest;
+
+  let manifest: DeploymentManifest | null = null;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (Number.isInteger(parsed?.chainId) && parsed.contracts) {
+      manifest = parsed;
+    } else {
+      console.warn(`Ignoring ${file}: not a deployment manifest`);
+    }
+  } catch (error) {
+    console.warn(`Ignoring unreadable deployment manifest ${file}:`, error);
+  }
+
+  cache.set(file, { mtimeMs, manifest });
+  return manifest;
+}
+
+// Most recent manifest for `chainId`, whatever network name it was written for
+export function loadDeploymentManifest(
+  chainId: number
+): DeploymentManifest | null {
+  const dir = getDeploymentsDir();
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter((name) => name.endsWith(".json"));
+  } catch {
+    return null;
+  }
+
+  const matches = files
+    .map((name) => readManifest(path.join(dir, name)))
+    .filter(
+      (manifest): manifest is DeploymentManifest =>
+        manifest !== null && manifest.chainId === chainId
+    )
+    .sort((a, b) => b.deployedAt.localeCompare(a.deployedAt));
+  return matches[0] ?? null;
+}
+
+// Addresses for `chainId` (by default the connected chain) from its manifest.
+// An address set in the environment takes precedence, so existing .env setups
+// keep working.
+export async function getContractAddresses(
+  chainId?: number
+): Promise<ContractAddresses> {
+  const manifest = loadDeploymentManifest(
+    chainId ?? (await getActiveChainId())
+  );
+  const fromManifest = manifest ? manifestAddresses(manifest) : {};
+  const fromEnv = readContractAddresses();
+
+  return {
+    vault: fromEnv.vault || fromManifest.vault,
+    basketStrategy: fromEnv.basketStrategy || fromManifest.basketStrategy,
+    simpleStrategy: fromEnv.simpleStrategy || fromManifest.simpleStrategy,
+  };
+}
+
+const abiHash = (abi: ethers.InterfaceAbi) =>
+  ethers.id(new ethers.Interface(abi).formatJson());
+
+// Compare the manifest for the connected chain with what is actually deployed.
+// Returns the problems found; each is also logged as a warning. Typical causes
+// are a restarted local node, a redeploy without restarting the app, or
+// TypeChain bindings older than the deployed contracts.
+export async function checkDeployment(): Promise<string[]> {
+  const warnings: string[] = [];
+
+  try {
+    const chainId = await getChainId();
+    const resolved = await getActiveChainId();
+    if (chainId !== resolved) {
+      warnings.push(
+        `Connected to chain ${chainId} but CHAIN_ID is ${resolved}; contract addresses are resolved for chain ${resolved}`
+      );
+    }
+
+    const manifest = loadDeploymentManifest(chainId);
+    if (!manifest) {
+      warnings.push(
+        `No deployment manifest for chain ${chainId} in ${getDeploymentsDir()}`
+      );
+    } else {
+      const provider = getProvider();
+      for (const [name, contract] of Object.entries(manifest.contracts)) {
+        const code = await provider.getCode(contract.address);
+        if (code === "0x") {
+          warnings.push(
+            `${name}: no contract at ${contract.address} (manifest from ${manifest.deployedAt}); redeploy or update the manifest`
+          );
+        } else if (ethers.keccak256(code) !== contract.codeHash) {
+          warnings.push(
+            `${name}: bytecode at ${contract.address} does not match the manifest`
+          );
+        }
+
+        const clientAbi = CLIENT_ABIS[name as keyof ContractAddresses];
+        if (clientAbi && abiHash(clientAbi) !== contract.abiHash) {
+          warnings.push(
+            `${name}: deployed ABI differs from the client's bindings; run npm run compile:contracts`
+          );
+        }
+      }
+
+      const fromEnv = readContractAddresses();
+      const fromManifest = manifestAddresses(manifest);
+      for (const key of Object.keys(
+        CONTRACT_ADDRESS_ENV
+      ) as (keyof ContractAddresses)[]) {
+        if (
+          fromEnv[key] &&
+          fromManifest[key] &&
+          fromEnv[key]!.toLowerCase() !== fromManifest[key]!.toLowerCase()
+        ) {
+          warnings.push(
+            `${CONTRACT_ADDRESS_ENV[key]}=${fromEnv[key]} overrides the manifest address ${fromManifest[key]}`
+          );
+        }
+      }
+    }
+  } catch (error) {
+    warnings.push(
+      `Deployment check failed: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  for (const warning of warnings) {
+    console.warn(`[deployment] ${warning}`);
+  }
+  return warnings;
+}
@@ -0,0 +1,189 @@
+import { ethers } from "ethers";
+import { AIBasketStrategy__factory, IStrategy__factory } from "@contracts";
+import { PortfolioHolding, PortfolioSnapshot, StrategyType } from "../../types";
+import { getProvider } from "../chain";
+import { fetchTokenMetadata } from "../tokens/onchain";
+import { getContractAddresses } from "./manifest";
+import { AIBasketStrategy, getERC20, getPriceFeed, getVault } from ".";
+
+type Overrides = { blockTag: number };
+
+// Value of `amount` of `token` in base-asset units, using the same feed math
+// as AIBasketStrategy._getTokenValueInAsset. Null when a feed is missing or
+// unusable, where the contract would revert.
+async function valueInAsset(
+  strategy: AIBasketStrategy,
+  token: string,
+  tokenDecimals: number,
+  asset: string,
+  assetDecimals: number,
+  amount: bigint,
+  overrides: Overrides
+): Promise<bigint | null> {
+  if (token.toLowerCase() === asset.toLowerCase()) return amount;
+  if (amount === BigInt(0)) return BigInt(0);
+
+  const [tokenFeedAddress, assetFeedAddress] = await Promise.all([
+    strategy.priceFeeds(token, overrides),
+    strategy.priceFeeds(asset, overrides),
+  ]);
+  if (
+    tokenFeedAddress === ethers.ZeroAddress ||
+    assetFeedAddress === ethers.ZeroAddress
+  ) {
+    return null;
+  }
+
+  const tokenFeed = getPriceFeed(tokenFeedAddress);
+  const assetFeed = getPriceFeed(assetFeedAddress);
+  const [tokenRound, assetRound, tokenFeedDecimals, assetFeedDecimals] =
+    await Promise.all([
+      tokenFeed.latestRoundData(overrides),
+      assetFeed.latestRoundData(overrides),
+      tokenFeed.decimals(overrides),
+      assetFeed.decimals(overrides),
+    ]);
+
+  const tokenPrice = tokenRound.answer;
+  const assetPrice = assetRound.answer;
+  if (
+    tokenPrice <= BigInt(0) ||
+    assetPrice <= BigInt(0) ||
+    tokenFeedDecimals !== assetFeedDecimals
+  ) {
+    return null;
+  }
+
+  const exp = assetDecimals - tokenDecimals;
+  return exp >= 0
+    ? (amount * tokenPrice * BigInt(10) ** BigInt(exp)) / assetPrice
+    : (amount * tokenPrice) / (assetPrice * BigInt(10) ** BigInt(-exp));
+}
+
+// Identify the vault's strategy by configured address, falling back to
+// probing for the basket interface
+async function detectStrategyType(
+  address: string,
+  overrides: Overrides
+): Promise<StrategyType> {
+  if (address === ethers.ZeroAddress) return "none";
+
+  const configured = await getContractAddresses();
+  const needle = address.toLowerCase();
+  if (configured.basketStrategy?.toLowerCase() === needle) return "basket";
+  if (configured.simpleStrategy?.toLowerCase() === needle) return "simple";
+
+  try {
+    await AIBasketStrategy__factory.connect(
+      address,
+      getProvider()
+    ).getAllocationsCount(overrides);
+    return "basket";
+  } catch {
+    return "unknown";
+  }
+}
+
+// Snapshot of the vault and its active strategy. Every read is pinned to the
+// same block so the figures are consistent with each other.
+export async function fetchPortfolio(): Promise<PortfolioSnapshot> {
+  const blockNumber = await getProvider().getBlockNumber();
+  const overrides: Overrides = { blockTag: blockNumber };
+
+  const vault = await getVault();
+  const [
+    vaultAddress,
+    asset,
+    vaultDecimals,
+    totalAssets,
+    totalSupply,
+    strategyAddress,
+    paused,
+  ] = await Promise.all([
+    vault.getAddress(),
+    vault.asset(overrides),
+    vault.decimals(overrides),
+    vault.totalAssets(overrides),
+    vault.totalSupply(overrides),
+    vault.strategy(overrides),
+    vault.paused(overrides),
+  ]);
+
+  const assetToken = getERC20(asset);
+  const [assetInfo, idleAssets, pricePerShare, strategyType] =
+    await Promise.all([
+      fetchTokenMetadata(asset),
+      assetToken.balanceOf(vaultAddress, overrides),
+      vault.convertToAssets(BigInt(10) ** vaultDecimals, overrides),
+      detectStrategyType(strategyAddress, overrides),
+    ]);
+
+  let strategyTotalAssets = BigInt(0);
+  let strategyIdle = BigInt(0);
+  let holdings: PortfolioHolding[] = [];
+
+  if (strategyType !== "none") {
+    [strategyTotalAssets, strategyIdle] = await Promise.all([
+      IStrategy__factory.connect(strategyAddress, getProvider()).totalAssets(
+        overrides
+      ),
+      assetToken.balanceOf(strategyAddress, overrides),
+    ]);
+  }
+
+  if (strategyType === "basket") {
+    const strategy = AIBasketStrategy__factory.connect(
+      strategyAddress,
+      getProvider()
+    );
+    const allocations = await strategy.getAllocations(overrides);
+
+    holdings = await Promise.all(
+      allocations.map(async ({ token, percentage }) => {
+        const [info, balance] = await Promise.all([
+          fetchTokenMetadata(token),
+          strategy.getTokenBalance(token, overrides),
+        ]);
+        const value = await valueInAsset(
+          strategy,
+          token,
+          info.decimals,
+          asset,
+          assetInfo.decimals,
+          balance,
+          overrides
+        );
+        return {
+          token,
+          symbol: info.symbol,
+          decimals: info.decimals,
+          targetBps: Number(percentage),
+          balance: balance.toString(),
+          valueInAsset: value === null ? null : value.toString(),
+        };
+      })
+    );
+  }
+
+  return {
+    blockNumber,
+    vault: {
+      address: vaultAddress,
+      asset,
+      assetSymbol: assetInfo.symbol,
+      assetDecimals: assetInfo.decimals,
+      totalAssets: totalAssets.toString(),
+      totalSupply: totalSupply.toString(),
+      pricePerShare: pricePerShare.toString(),
+      idleAssets: idleAssets.toString(),
+      paused,
+    },
+    strategy: {
+      address: strategyAddress,
+      type: strategyType,
+      totalAssets: strategyTotalAssets.toString(),
+      idleAssets: strategyIdle.toString(),
+      holdings,
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { ethers } from "ethers";
+import type { AIBasketStrategy } from "@contracts";
+import { ContractAllocation, SimulationResult } from "../../types";
+
+// Browser-safe: depends only on the strategy's runner, so both the API route
+// (read-only provider) and useContractInteraction (wallet signer) can use it.
+
+// Human-readable reason for a reverted call or failed gas estimate
+export function decodeRevertReason(error: unknown): string {
+  if (ethers.isError(error, "CALL_EXCEPTION")) {
+    if (error.reason) return error.reason;
+    if (error.revert) {
+      return `${error.revert.name}(${error.revert.args.join(", ")})`;
+    }
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : "Unknown error occurred";
+}
+
+// Dry-run setAllocations: static call plus gas and fee estimation, no broadcast.
+// `from` sets the sender, e.g. the strategy owner when the runner is a plain
+// provider; by default it is the runner's signer.
+export async function simulateSetAllocations(
+  strategy: AIBasketStrategy,
+  allocations: ContractAllocation[],
+  from?: string
+): Promise<SimulationResult> {
+  const overrides = from ? { from } : {};
+  try {
+    await strategy.setAllocations.staticCall(allocations, overrides);
+    const gasEstimate = await strategy.setAllocations.estimateGas(
+      allocations,
+      overrides
+    );
+
+    const feeData = await strategy.runner?.provider?.getFeeData();
+    const pricePerGas = feeData?.maxFeePerGas ?? feeData?.gasPrice ?? null;
+
+    return {
+      willSucceed: true,
+      gasEstimate: gasEstimate.toString(),
+      feeEstimate:
+        pricePerGas !== null
+          ? (gasEstimate * pricePerGas).toString()
+          : undefined,
+      allocations,
+    };
+  } catch (error) {
+    return {
+      willSucceed: false,
+      revertReason: decodeRevertReason(error),
+      allocations,
+    };
+  }
+}
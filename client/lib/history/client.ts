@@ -0,0 +1,45 @@
+import { SuggestionRecord, SuggestionUpdate } from "../../types";
+
+// Browser-side access to the suggestion history routes
+
+export async function fetchSuggestionHistory(
+  limit = 50,
+  before?: string
+): Promise<SuggestionRecord[]> {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (before) params.set("before", before);
+
+  const response = await fetch(`/api/history?${params}`);
+  const data = await response.json();
+  if (!data.success) {
+    throw new Error(data.error);
+  }
+  return data.data;
+}
+
+export async function fetchSuggestion(id: string): Promise<SuggestionRecord> {
+  const response = await fetch(`/api/history/${encodeURIComponent(id)}`);
+  const data = await response.json();
+  if (!data.success) {
+    throw new Error(data.error);
+  }
+  return data.data;
+}
+
+export async function updateSuggestionHistory(
+  id: string,
+  update: SuggestionUpdate
+): Promise<SuggestionRecord> {
+  const response = await fetch(`/api/history/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(update),
+  });
+  const data = await response.json();
+  if (!data.success) {
+    throw new Error(data.error);
+  }
+  return data.data;
+}
@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import { SuggestionRecord, SuggestionUpdate } from "../../types";
+import {
+  array,
+  boolean,
+  number,
+  object,
+  oneOf,
+  optional,
+  Schema,
+  string,
+} from "../ai/schema";
+import { readJsonFile, writeJsonFile } from "../storage";
+
+// Every AI suggestion with its inputs, the user's edits and the on-chain
+// outcome, persisted so past suggestions can be reviewed and reopened.
+
+const HISTORY_FILE = "suggestion-history.json";
+const MAX_RECORDS = 1000;
+
+const UPDATE_FIELDS = [
+  "editedAllocations",
+  "validationErrors",
+  "simulation",
+  "execution",
+] as const;
+
+// Oldest first, loaded from disk on first use
+let records: SuggestionRecord[] | null = null;
+
+function load(): SuggestionRecord[] {
+  if (!records) {
+    records = readJsonFile<SuggestionRecord[]>(HISTORY_FILE, []);
+  }
+  return records;
+}
+
+function save() {
+  writeJsonFile(HISTORY_FILE, load());
+}
+
+// Body of PATCH /api/history/[id]. Edited allocations are stored as the user
+// left them, so only their shape is checked, not the advice rules.
+export const suggestionUpdateSchema: Schema<SuggestionUpdate> = object({
+  editedAllocations: optional(
+    array(
+      object({
+        token: string(),
+        percentage: number(),
+        amount: number(),
+        tokenAddress: string(),
+      }),
+      { maxItems: 50 }
+    )
+  ),
+  validationErrors: optional(
+    array(object({ index: number(), field: string(), message: string() }))
+  ),
+  simulation: optional(
+    object({
+      willSucceed: boolean(),
+      revertReason: optional(string()),
+      gasEstimate: optional(string()),
+      feeEstimate: optional(string()),
+      allocations: array(object({ token: string(), percentage: number() })),
+    })
+  ),
+  execution: optional(
+    object({
+      status: oneOf(["confirmed", "failed"] as const),
+      signingMode: oneOf(["wallet", "server"] as const),
+      transactionHash: optional(string()),
+      error: optional(string()),
+      executedAt: string(),
+    })
+  ),
+});
+
+export function recordSuggestion(
+  entry: Omit<SuggestionRecord, "id" | "createdAt" | "updatedAt">
+): SuggestionRecord {
+  const now = new Date().toISOString();
+  const record: SuggestionRecord = {
+    ...entry,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const history = load();
+  history.push(record);
+  if (history.length > MAX_RECORDS) {
+    history.splice(0, history.length - MAX_RECORDS);
+  }
+  save();
+  return record;
+}
+
+export function getSuggestion(id: string): SuggestionRecord | null {
+  return load().find((record) => record.id === id) ?? null;
+}
+
+// Newest first; `before` is the id of the last record of the previous page
+export function listSuggestions(
+  limit: number,
+  before?: string
+): SuggestionRecord[] {
+  const newestFirst = [...load()].reverse();
+  const start = before
+    ? newestFirst.findIndex((record) => record.id === before) + 1
+    : 0;
+  return start > 0 || !before ? newestFirst.slice(start, start + limit) : [];
+}
+
+export function updateSuggestion(
+  id: string,
+  update: SuggestionUpdate
+): SuggestionRecord | null {
+  const record = getSuggestion(id);
+  if (!record) return null;
+
+  // Copy only the updatable fields; request bodies may carry anything else
+  const changes = Object.fromEntries(
+    UPDATE_FIELDS.filter((field) => update[field] !== undefined).map(
+      (field) => [field, update[field]]
+    )
+  );
+  Object.assign(record, changes, { updatedAt: new Date().toISOString() });
+  save();
+  return record;
+}
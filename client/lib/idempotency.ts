@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { readJsonFile, writeJsonFile } from "./storage";
+
+// Idempotency-Key support for write routes. The first request with a key runs
+// normally and its response is stored with a fingerprint of the payload; a
+// repeat with the same key and payload gets the stored response back instead
+// of running again, and a repeat with a different payload is rejected.
+
+export const IDEMPOTENCY_HEADER = "idempotency-key";
+
+const STATE_FILE = "idempotency-keys.json";
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  state: "in-progress" | "completed";
+  status?: number;
+  body?: unknown;
+  createdAt: number;
+}
+
+let records: Map<string, IdempotencyRecord> | null = null;
+
+function loadRecords(): Map<string, IdempotencyRecord> {
+  if (!records) {
+    records = new Map(
+      Object.entries(
+        readJsonFile<Record<string, IdempotencyRecord>>(STATE_FILE, {})
+      )
+    );
+  }
+
+  const cutoff = Date.now() - KEY_TTL_MS;
+  for (const [key, record] of records) {
+    if (record.createdAt < cutoff) records.delete(key);
+  }
+  return records;
+}
+
+function persist() {
+  writeJsonFile(STATE_FILE, Object.fromEntries(loadRecords()));
+}
+
+// JSON with object keys sorted, so field order does not change the fingerprint
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalize(entry)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function fingerprint(payload: unknown): string {
+  return crypto
+    .createHash("sha256")
+    .update(canonicalize(payload))
+    .digest("hex");
+}
+
+// Run `handler` at most once per Idempotency-Key. `scope` namespaces keys per
+// caller and route; requests without the header always run.
+export async function withIdempotency(
+  req: NextRequest,
+  scope: string,
+  payload: unknown,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = req.headers.get(IDEMPOTENCY_HEADER);
+  if (key === null) return handler();
+
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const storeKey = `${scope}:${key}`;
+  const print = fingerprint(payload);
+  const existing = loadRecords().get(storeKey);
+
+  if (existing) {
+    if (existing.fingerprint !== print) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Idempotency-Key was already used with a different request",
+        },
+        { status: 422 }
+      );
+    }
+
+    if (existing.state === "in-progress") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "A request with this Idempotency-Key is still in progress",
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(existing.body, {
+      status: existing.status,
+      headers: { "Idempotent-Replayed": "true" },
+    });
+  }
+
+  loadRecords().set(storeKey, {
+    fingerprint: print,
+    state: "in-progress",
+    createdAt: Date.now(),
+  });
+  persist();
+
+  try {
+    const response = await handler();
+
+    // Server errors are not stored, so the client may retry with the same key
+    if (response.status >= 500) {
+      loadRecords().delete(storeKey);
+    } else {
+      loadRecords().set(storeKey, {
+        fingerprint: print,
+        state: "completed",
+        status: response.status,
+        body: await response.clone().json(),
+        createdAt: Date.now(),
+      });
+    }
+    persist();
+    return response;
+  } catch (error) {
+    loadRecords().delete(storeKey);
+    persist();
+    throw error;
+  }
+}
@@ -0,0 +1,211 @@
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { IndexedContract, IndexedEvent } from "../../types";
+import { getDataDir } from "../storage";
+
+// SQLite store for indexed contract events. `blocks` records the hash of every
+// block the indexer has processed events for, plus the last block of each
+// batch, so a reorg can be found by comparing stored hashes with the chain.
+// `event_participants` maps the addresses in each event's arguments to it.
+
+let db: Database.Database | null = null;
+
+export function getDatabase(): Database.Database {
+  if (db) return db;
+
+  const file =
+    process.env.INDEXER_DB_PATH || path.join(getDataDir(), "events.db");
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  const hasParticipants = db
+    .prepare(
+      "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'event_participants'"
+    )
+    .get();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS blocks (
+      number INTEGER PRIMARY KEY,
+      hash TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      contract TEXT NOT NULL,
+      address TEXT NOT NULL,
+      event TEXT NOT NULL,
+      block_number INTEGER NOT NULL,
+      block_hash TEXT NOT NULL,
+      tx_hash TEXT NOT NULL,
+      log_index INTEGER NOT NULL,
+      args TEXT NOT NULL,
+      UNIQUE (block_hash, log_index)
+    );
+    CREATE INDEX IF NOT EXISTS events_by_contract
+      ON events (contract, event, block_number);
+    CREATE INDEX IF NOT EXISTS events_by_tx ON events (tx_hash);
+    CREATE TABLE IF NOT EXISTS event_participants (
+      address TEXT NOT NULL,
+      event_id INTEGER NOT NULL,
+      PRIMARY KEY (address, event_id)
+    );
+  `);
+  // Events stored before participants were indexed are reindexed from the
+  // start block so that address queries see them
+  if (!hasParticipants) {
+    db.exec("DELETE FROM events; DELETE FROM blocks;");
+  }
+  return db;
+}
+
+interface EventRow {
+  id: number;
+  contract: IndexedContract;
+  address: string;
+  event: string;
+  block_number: number;
+  block_hash: string;
+  tx_hash: string;
+  log_index: number;
+  args: string;
+}
+
+export type NewEvent = Omit<IndexedEvent, "id"> & {
+  participants: string[]; // lowercased
+};
+
+// Highest processed block, or null before the first batch
+export function getIndexedBlock(): { number: number; hash: string } | null {
+  const row = getDatabase()
+    .prepare("SELECT number, hash FROM blocks ORDER BY number DESC LIMIT 1")
+    .get() as { number: number; hash: string } | undefined;
+  return row ?? null;
+}
+
+// Stored blocks from newest to oldest, for walking back to a common ancestor
+export function getRecentBlocks(
+  limit: number
+): { number: number; hash: string }[] {
+  return getDatabase()
+    .prepare("SELECT number, hash FROM blocks ORDER BY number DESC LIMIT ?")
+    .all(limit) as { number: number; hash: string }[];
+}
+
+// Store one batch atomically: its events and the hashes of the blocks seen
+export function saveBatch(
+  events: NewEvent[],
+  blocks: { number: number; hash: string }[]
+) {
+  const database = getDatabase();
+  const insertEvent = database.prepare(`
+    INSERT OR IGNORE INTO events
+      (contract, address, event, block_number, block_hash, tx_hash, log_index, args)
+    VALUES
+      (@contract, @address, @event, @blockNumber, @blockHash, @transactionHash, @logIndex, @args)
+  `);
+  const insertParticipant = database.prepare(
+    "INSERT OR IGNORE INTO event_participants (address, event_id) VALUES (?, ?)"
+  );
+  const insertBlock = database.prepare(
+    "INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)"
+  );
+
+  database.transaction(() => {
+    for (const { participants, ...event } of events) {
+      const { changes, lastInsertRowid } = insertEvent.run({
+        ...event,
+        args: JSON.stringify(event.args),
+      });
+      if (changes === 0) continue; // already stored
+
+      for (const address of participants) {
+        insertParticipant.run(address, lastInsertRowid);
+      }
+    }
+    for (const block of blocks) {
+      insertBlock.run(block.number, block.hash);
+    }
+  })();
+}
+
+// Drop everything after `blockNumber`, e.g. blocks orphaned by a reorg
+export function rollbackTo(blockNumber: number) {
+  const database = getDatabase();
+  database.transaction(() => {
+    database
+      .prepare(
+        "DELETE FROM event_participants WHERE event_id IN (SELECT id FROM events WHERE block_number > ?)"
+      )
+      .run(blockNumber);
+    database
+      .prepare("DELETE FROM events WHERE block_number > ?")
+      .run(blockNumber);
+    database.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+  })();
+}
+
+export interface EventQuery {
+  contract?: IndexedContract;
+  event?: string;
+  transactionHash?: string;
+  address?: string; // participant, e.g. a depositor or token
+  fromBlock?: number;
+  toBlock?: number;
+  before?: number; // event id, for paging backwards
+  limit: number;
+}
+
+// Matching events, newest first
+export function queryEvents(query: EventQuery): IndexedEvent[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (query.contract) {
+    conditions.push("contract = ?");
+    params.push(query.contract);
+  }
+  if (query.event) {
+    conditions.push("event = ?");
+    params.push(query.event);
+  }
+  if (query.transactionHash) {
+    conditions.push("tx_hash = ?");
+    params.push(query.transactionHash.toLowerCase());
+  }
+  if (query.address) {
+    conditions.push(
+      "id IN (SELECT event_id FROM event_participants WHERE address = ?)"
+    );
+    params.push(query.address.toLowerCase());
+  }
+  if (query.fromBlock !== undefined) {
+    conditions.push("block_number >= ?");
+    params.push(query.fromBlock);
+  }
+  if (query.toBlock !== undefined) {
+    conditions.push("block_number <= ?");
+    params.push(query.toBlock);
+  }
+  if (query.before !== undefined) {
+    conditions.push("id < ?");
+    params.push(query.before);
+  }
+
+  const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+  const rows = getDatabase()
+    .prepare(`SELECT * FROM events ${where} ORDER BY id DESC LIMIT ?`)
+    .all(...params, query.limit) as EventRow[];
+
+  return rows.map((row) => ({
+    id: row.id,
+    contract: row.contract,
+    address: row.address,
+    event: row.event,
+    blockNumber: row.block_number,
+    blockHash: row.block_hash,
+    transactionHash: row.tx_hash,
+    logIndex: row.log_index,
+    args: JSON.parse(row.args),
+  }));
+}
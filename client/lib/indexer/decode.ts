@@ -0,0 +1,42 @@
+import { ethers } from "ethers";
+
+// JSON-safe copy of decoded event arguments, keyed by parameter name
+export function serializeArgs(
+  fragment: ethers.EventFragment,
+  args: ethers.Result
+): Record<string, unknown> {
+  const serialize = (value: unknown): unknown => {
+    if (typeof value === "bigint") return value.toString();
+    if (Array.isArray(value)) return value.map(serialize);
+    return value;
+  };
+
+  return Object.fromEntries(
+    fragment.inputs.map((input, index) => [
+      input.name || String(index),
+      serialize(args[index]),
+    ])
+  );
+}
+
+// Lowercased addresses an event involves (owner, receiver, sender, token...),
+// taken from its address and address[] parameters
+export function eventParticipants(
+  fragment: ethers.EventFragment,
+  args: ethers.Result
+): string[] {
+  const participants = new Set<string>();
+
+  fragment.inputs.forEach((input, index) => {
+    const value = args[index];
+    if (input.type === "address") {
+      participants.add(String(value).toLowerCase());
+    } else if (input.type === "address[]") {
+      for (const address of value as string[]) {
+        participants.add(address.toLowerCase());
+      }
+    }
+  });
+
+  return Array.from(participants);
+}
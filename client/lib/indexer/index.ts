@@ -0,0 +1,219 @@
+import { ethers } from "ethers";
+import {
+  AIBasketStrategy__factory,
+  SimpleStrategy__factory,
+  Vault__factory,
+} from "@contracts";
+import { IndexedContract, IndexerStatus } from "../../types";
+import { getActiveChainId, getProvider } from "../chain";
+import { ContractAddresses } from "../contracts/addresses";
+import {
+  getContractAddresses,
+  loadDeploymentManifest,
+} from "../contracts/manifest";
+import {
+  getIndexedBlock,
+  getRecentBlocks,
+  NewEvent,
+  rollbackTo,
+  saveBatch,
+} from "./db";
+import { eventParticipants, serializeArgs } from "./decode";
+
+// Backfills and tails events from the Vault and strategies into SQLite.
+// Each sync first checks the last indexed block hash against the chain; on a
+// mismatch it walks back through stored hashes to the newest block both
+// agree on and discards everything after it before indexing forward again.
+
+const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+// Deepest reorg recovered by walking back; anything deeper reindexes from
+// the start block
+const MAX_REORG_DEPTH = 128;
+
+const interfaces: Record<IndexedContract, ethers.Interface> = {
+  vault: Vault__factory.createInterface(),
+  basketStrategy: AIBasketStrategy__factory.createInterface(),
+  simpleStrategy: SimpleStrategy__factory.createInterface(),
+};
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let syncing: Promise<void> | null = null;
+let lastSyncedAt: string | undefined;
+let lastError: string | undefined;
+
+// INDEXER_START_BLOCK, else the deployment block from the manifest
+async function getStartBlock(): Promise<number> {
+  const configured = parseInt(process.env.INDEXER_START_BLOCK ?? "", 10);
+  if (configured >= 0) return configured;
+  return loadDeploymentManifest(await getActiveChainId())?.blockNumber ?? 0;
+}
+
+function getBatchSize(): number {
+  const configured = parseInt(process.env.INDEXER_BATCH_SIZE ?? "", 10);
+  return configured > 0 ? configured : DEFAULT_BATCH_SIZE;
+}
+
+// Configured contracts keyed by lowercased address
+async function getIndexedContracts(): Promise<Map<string, IndexedContract>> {
+  const addresses = await getContractAddresses();
+  const contracts = new Map<string, IndexedContract>();
+  for (const key of Object.keys(interfaces) as (keyof ContractAddresses)[]) {
+    const address = addresses[key];
+    if (address) contracts.set(address.toLowerCase(), key);
+  }
+  return contracts;
+}
+
+async function getBlockHash(blockNumber: number): Promise<string | null> {
+  const block = await getProvider().getBlock(blockNumber);
+  return block?.hash ?? null;
+}
+
+// Undo indexed blocks that are no longer on the canonical chain
+async function handleReorg(): Promise<void> {
+  const indexed = getIndexedBlock();
+  if (!indexed || (await getBlockHash(indexed.number)) === indexed.hash) {
+    return;
+  }
+
+  for (const block of getRecentBlocks(MAX_REORG_DEPTH)) {
+    if ((await getBlockHash(block.number)) === block.hash) {
+      console.warn(
+        `Chain reorganized after block ${block.number}; discarding later events`
+      );
+      rollbackTo(block.number);
+      return;
+    }
+  }
+
+  console.warn("Reorg deeper than the stored history; reindexing from start");
+  rollbackTo((await getStartBlock()) - 1);
+}
+
+async function syncBatch(
+  contracts: Map<string, IndexedContract>,
+  fromBlock: number,
+  toBlock: number
+) {
+  const logs = await getProvider().getLogs({
+    address: Array.from(contracts.keys()),
+    fromBlock,
+    toBlock,
+  });
+
+  const events: NewEvent[] = [];
+  const blocks = new Map<number, string>();
+
+  for (const log of logs) {
+    if (log.removed) continue;
+
+    const contract = contracts.get(log.address.toLowerCase());
+    const parsed = contract ? interfaces[contract].parseLog(log) : null;
+    if (!contract || !parsed) continue;
+
+    events.push({
+      contract,
+      address: log.address,
+      event: parsed.name,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      args: serializeArgs(parsed.fragment, parsed.args),
+      participants: eventParticipants(parsed.fragment, parsed.args),
+    });
+    blocks.set(log.blockNumber, log.blockHash);
+  }
+
+  // The last block of the batch becomes the new cursor even without events
+  const lastHash = await getBlockHash(toBlock);
+  if (!lastHash) {
+    throw new Error(`Block ${toBlock} not found`);
+  }
+  blocks.set(toBlock, lastHash);
+
+  saveBatch(
+    events,
+    Array.from(blocks, ([number, hash]) => ({ number, hash }))
+  );
+}
+
+async function runSync(): Promise<void> {
+  const contracts = await getIndexedContracts();
+  if (contracts.size === 0) {
+    throw new Error("Contract addresses not configured");
+  }
+
+  await handleReorg();
+
+  const head = await getProvider().getBlockNumber();
+  let next = (getIndexedBlock()?.number ?? (await getStartBlock()) - 1) + 1;
+
+  while (next <= head) {
+    const to = Math.min(head, next + getBatchSize() - 1);
+    await syncBatch(contracts, next, to);
+    next = to + 1;
+  }
+}
+
+// Index up to the current head. Concurrent callers share one run.
+export function syncEvents(): Promise<void> {
+  if (!syncing) {
+    syncing = runSync()
+      .then(() => {
+        lastSyncedAt = new Date().toISOString();
+        lastError = undefined;
+      })
+      .catch((error) => {
+        lastError = error instanceof Error ? error.message : String(error);
+        throw error;
+      })
+      .finally(() => {
+        syncing = null;
+      });
+  }
+  return syncing;
+}
+
+// Start backfilling, then poll for new blocks every INDEXER_POLL_INTERVAL ms
+// (5s by default). `npm run indexer` runs this as its own process.
+export function runIndexer() {
+  if (timer) return;
+
+  const configured = parseInt(process.env.INDEXER_POLL_INTERVAL ?? "", 10);
+  const interval = configured > 0 ? configured : DEFAULT_POLL_INTERVAL_MS;
+
+  const tick = () =>
+    syncEvents().catch((error) => console.error("Indexer sync failed:", error));
+  tick();
+  timer = setInterval(tick, interval);
+}
+
+// Called lazily by the event routes. INDEXER_ENABLED=false leaves the store
+// to a standalone `npm run indexer`, or read-only.
+export function startIndexer() {
+  if (process.env.INDEXER_ENABLED === "false") return;
+  runIndexer();
+}
+
+export async function getIndexerStatus(): Promise<IndexerStatus> {
+  let headBlock: number | null = null;
+  let startBlock: number | null = null;
+  try {
+    headBlock = await getProvider().getBlockNumber();
+    startBlock = await getStartBlock();
+  } catch {
+    // RPC unavailable; report what is stored
+  }
+
+  return {
+    running: timer !== null,
+    startBlock,
+    indexedBlock: getIndexedBlock()?.number ?? null,
+    headBlock,
+    lastSyncedAt,
+    lastError,
+  };
+}
@@ -0,0 +1,168 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+import {
+  PendingTransaction,
+  TransactionJob,
+  TransactionReceiptSummary,
+} from "../../types";
+import { getProvider } from "../chain";
+import { isServerSigningEnabled } from "../contracts";
+import {
+  getPendingTransactions,
+  sendManagedTransaction,
+  waitForNonce,
+} from "../signer";
+
+// Transaction jobs let write routes return immediately while the transaction
+// is sent and mined in the background. Job records live in process memory (the
+// most recent MAX_JOBS are kept for status polling); jobs still in flight are
+// rebuilt from the signer's persisted pending transactions after a restart.
+
+const MAX_JOBS = 500;
+
+const jobs = new Map<string, TransactionJob>();
+
+function updateJob(id: string, changes: Partial<TransactionJob>) {
+  const job = jobs.get(id);
+  if (job) {
+    jobs.set(id, { ...job, ...changes, updatedAt: new Date().toISOString() });
+  }
+}
+
+function summarizeReceipt(
+  receipt: ethers.TransactionReceipt
+): TransactionReceiptSummary {
+  return {
+    blockNumber: receipt.blockNumber,
+    blockHash: receipt.blockHash,
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.gasPrice.toString(),
+    status: receipt.status ?? 0,
+  };
+}
+
+// Follow a sent transaction until some transaction with its nonce is mined
+async function trackJob(id: string, nonce: number) {
+  try {
+    const outcome = await waitForNonce(nonce);
+    const receipt = summarizeReceipt(outcome.receipt);
+
+    if (outcome.replaced) {
+      updateJob(id, {
+        status: "replaced",
+        replacementHash: outcome.hash,
+        receipt,
+        error: outcome.cancelled ? "Transaction cancelled" : undefined,
+      });
+    } else if (receipt.status === 1) {
+      updateJob(id, { status: "mined", receipt });
+    } else {
+      updateJob(id, {
+        status: "failed",
+        receipt,
+        error: "Transaction reverted",
+      });
+    }
+  } catch (error) {
+    console.error(`Transaction job ${id} failed:`, error);
+    updateJob(id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    });
+  }
+}
+
+async function runJob(
+  id: string,
+  kind: string,
+  build: () => Promise<ethers.TransactionRequest>
+) {
+  let tx: PendingTransaction;
+  try {
+    tx = await sendManagedTransaction(await build(), { jobId: id, kind });
+  } catch (error) {
+    console.error(`Transaction job ${id} failed:`, error);
+    updateJob(id, {
+      status: "failed",
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    });
+    return;
+  }
+
+  updateJob(id, { status: "submitted", transactionHash: tx.hashes[0] });
+  await trackJob(id, tx.nonce);
+}
+
+// After a restart, rebuild jobs for transactions that were still in flight
+let restored = false;
+
+function restorePendingJobs() {
+  if (restored || !isServerSigningEnabled()) return;
+  restored = true;
+
+  let pending: PendingTransaction[];
+  try {
+    pending = getPendingTransactions();
+  } catch (error) {
+    console.error("Could not restore pending transaction jobs:", error);
+    return;
+  }
+
+  for (const tx of pending) {
+    if (!tx.jobId || jobs.has(tx.jobId)) continue;
+
+    jobs.set(tx.jobId, {
+      id: tx.jobId,
+      kind: tx.kind ?? "transaction",
+      status: "submitted",
+      createdAt: tx.sentAt,
+      updatedAt: tx.lastSentAt,
+      transactionHash: tx.hashes[0],
+      confirmations: 0,
+    });
+    void trackJob(tx.jobId, tx.nonce);
+  }
+}
+
+// Register a job and send in the background through the signer service;
+// `build` returns the unsigned transaction, e.g. from populateTransaction
+export function enqueueTransaction(
+  kind: string,
+  build: () => Promise<ethers.TransactionRequest>
+): TransactionJob {
+  restorePendingJobs();
+
+  const now = new Date().toISOString();
+  const job: TransactionJob = {
+    id: crypto.randomUUID(),
+    kind,
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+    confirmations: 0,
+  };
+
+  jobs.set(job.id, job);
+  if (jobs.size > MAX_JOBS) {
+    // Maps iterate in insertion order, so the first key is the oldest job
+    jobs.delete(jobs.keys().next().value!);
+  }
+
+  void runJob(job.id, kind, build);
+  return job;
+}
+
+// Current job state with confirmations counted against the latest block
+export async function getJob(id: string): Promise<TransactionJob | null> {
+  restorePendingJobs();
+
+  const job = jobs.get(id);
+  if (!job) return null;
+  if (!job.receipt) return job;
+
+  const latestBlock = await getProvider().getBlockNumber();
+  return {
+    ...job,
+    confirmations: Math.max(0, latestBlock - job.receipt.blockNumber + 1),
+  };
+}
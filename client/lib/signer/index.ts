@@ -0,0 +1,321 @@
+import { ethers } from "ethers";
+import { PendingTransaction } from "../../types";
+import { getServerSigner } from "../contracts";
+import { readJsonFile, writeJsonFile } from "../storage";
+
+// Process-wide service for everything the server key sends. Sends are
+// serialized so each gets the next nonce, in-flight transactions are written
+// to DATA_DIR so a restart can pick them up again, and a transaction that sits
+// unmined for TX_STUCK_AFTER seconds can be sped up or cancelled by re-sending
+// its nonce with higher fees.
+
+const STATE_FILE = "pending-transactions.json";
+const POLL_INTERVAL_MS = 4000;
+const DEFAULT_STUCK_AFTER_SECONDS = 180;
+
+// Nodes reject replacements that do not raise fees by at least 10%
+const FEE_BUMP_NUMERATOR = BigInt(1125);
+const FEE_BUMP_DENOMINATOR = BigInt(1000);
+
+interface SignerState {
+  address: string;
+  transactions: PendingTransaction[];
+}
+
+interface Fees {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+}
+
+export interface TransactionOutcome {
+  receipt: ethers.TransactionReceipt;
+  hash: string;
+  replaced: boolean;
+  cancelled: boolean;
+}
+
+// Raised for requests the signer cannot act on, such as an unknown nonce
+export class SignerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SignerError";
+  }
+}
+
+let wallet: ethers.Wallet | null = null;
+let pending: Map<number, PendingTransaction> | null = null;
+let nextNonce: number | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+const watchers = new Map<number, Promise<TransactionOutcome>>();
+const reportedStuck = new Set<string>();
+
+function getWallet(): ethers.Wallet {
+  if (!wallet) {
+    wallet = getServerSigner();
+  }
+  return wallet;
+}
+
+function getProvider(): ethers.Provider {
+  return getWallet().provider!;
+}
+
+// Pending transactions from a previous run, ignored if the key has changed
+function loadPending(): Map<number, PendingTransaction> {
+  if (!pending) {
+    const state = readJsonFile<SignerState | null>(STATE_FILE, null);
+    const transactions =
+      state?.address === getWallet().address ? state.transactions : [];
+    pending = new Map(transactions.map((tx) => [tx.nonce, tx]));
+  }
+  return pending;
+}
+
+function persist() {
+  writeJsonFile(STATE_FILE, {
+    address: getWallet().address,
+    transactions: Array.from(loadPending().values()),
+  } satisfies SignerState);
+}
+
+// Run sends one at a time so nonces are handed out in order
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+function getStuckAfterMs(): number {
+  const configured = parseInt(process.env.TX_STUCK_AFTER ?? "", 10);
+  return (configured > 0 ? configured : DEFAULT_STUCK_AFTER_SECONDS) * 1000;
+}
+
+export function isStuck(tx: PendingTransaction): boolean {
+  return Date.now() - new Date(tx.lastSentAt).getTime() > getStuckAfterMs();
+}
+
+async function currentFees(): Promise<Fees> {
+  const feeData = await getProvider().getFeeData();
+  if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+    return {
+      maxFeePerGas: feeData.maxFeePerGas,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
+    };
+  }
+  return { gasPrice: feeData.gasPrice ?? undefined };
+}
+
+function bump(previous: string | undefined, current: bigint | undefined) {
+  const bumped =
+    (BigInt(previous ?? 0) * FEE_BUMP_NUMERATOR) / FEE_BUMP_DENOMINATOR +
+    BigInt(1);
+  return current !== undefined && current > bumped ? current : bumped;
+}
+
+// Fees for a replacement: at least the bump nodes require, or the current
+// market rate if that has risen further
+function replacementFees(tx: PendingTransaction, current: Fees): Fees {
+  if (tx.gasPrice !== undefined) {
+    return { gasPrice: bump(tx.gasPrice, current.gasPrice) };
+  }
+  return {
+    maxFeePerGas: bump(tx.maxFeePerGas, current.maxFeePerGas),
+    maxPriorityFeePerGas: bump(
+      tx.maxPriorityFeePerGas,
+      current.maxPriorityFeePerGas
+    ),
+  };
+}
+
+function feeFields(fees: Fees) {
+  return {
+    maxFeePerGas: fees.maxFeePerGas?.toString(),
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas?.toString(),
+    gasPrice: fees.gasPrice?.toString(),
+  };
+}
+
+async function broadcast(
+  tx: {
+    to: string;
+    data: string;
+    value: bigint;
+    gasLimit: bigint;
+    nonce: number;
+  },
+  fees: Fees
+): Promise<ethers.TransactionResponse> {
+  return getWallet().sendTransaction({
+    ...tx,
+    ...fees,
+    type: fees.gasPrice !== undefined ? 0 : 2,
+  });
+}
+
+// Sign and broadcast `request` with the next free nonce and start tracking it
+export function sendManagedTransaction(
+  request: ethers.TransactionRequest,
+  meta: { jobId?: string; kind?: string } = {}
+): Promise<PendingTransaction> {
+  return serialize(async () => {
+    const signer = getWallet();
+    const transactions = loadPending();
+
+    // The local counter covers sends the node has not seen yet; the chain
+    // count covers transactions sent from elsewhere with the same key
+    const chainNonce = await signer.getNonce("pending");
+    const nonce = Math.max(chainNonce, nextNonce ?? 0);
+
+    const to = String(request.to);
+    const data = request.data ?? "0x";
+    const value = BigInt(request.value ?? 0);
+    const gasLimit =
+      request.gasLimit !== undefined && request.gasLimit !== null
+        ? BigInt(request.gasLimit)
+        : await signer.estimateGas({ ...request, from: signer.address });
+    const fees = await currentFees();
+
+    let response: ethers.TransactionResponse;
+    try {
+      response = await broadcast({ to, data, value, gasLimit, nonce }, fees);
+    } catch (error) {
+      // Resynchronize from the chain on the next send
+      nextNonce = null;
+      throw error;
+    }
+    nextNonce = nonce + 1;
+
+    const now = new Date().toISOString();
+    const tx: PendingTransaction = {
+      nonce,
+      hashes: [response.hash],
+      to,
+      data,
+      value: value.toString(),
+      gasLimit: gasLimit.toString(),
+      ...feeFields(fees),
+      jobId: meta.jobId,
+      kind: meta.kind,
+      sentAt: now,
+      lastSentAt: now,
+    };
+    transactions.set(nonce, tx);
+    persist();
+    return tx;
+  });
+}
+
+// Re-send a pending nonce with bumped fees. "speed-up" repeats the original
+// call; "cancel" replaces it with an empty transfer to ourselves. Once a nonce
+// has been cancelled, later speed-ups bump the cancellation.
+export function replaceTransaction(
+  nonce: number,
+  action: "speed-up" | "cancel"
+): Promise<PendingTransaction> {
+  return serialize(async () => {
+    const signer = getWallet();
+    const tx = loadPending().get(nonce);
+    if (!tx) {
+      throw new SignerError(`No pending transaction with nonce ${nonce}`);
+    }
+
+    const cancelling = action === "cancel" || tx.cancelHash !== undefined;
+    const fees = replacementFees(tx, await currentFees());
+    const response = await broadcast(
+      cancelling
+        ? {
+            to: signer.address,
+            data: "0x",
+            value: BigInt(0),
+            gasLimit: BigInt(21000),
+            nonce,
+          }
+        : {
+            to: tx.to,
+            data: tx.data,
+            value: BigInt(tx.value),
+            gasLimit: BigInt(tx.gasLimit),
+            nonce,
+          },
+      fees
+    );
+
+    const updated: PendingTransaction = {
+      ...tx,
+      ...feeFields(fees),
+      hashes: [...tx.hashes, response.hash],
+      cancelHash: cancelling ? response.hash : undefined,
+      lastSentAt: new Date().toISOString(),
+    };
+    loadPending().set(nonce, updated);
+    persist();
+    return updated;
+  });
+}
+
+async function watch(nonce: number): Promise<TransactionOutcome> {
+  const provider = getProvider();
+  const address = getWallet().address;
+
+  for (;;) {
+    const tx = loadPending().get(nonce);
+    if (!tx) {
+      throw new SignerError(`No pending transaction with nonce ${nonce}`);
+    }
+
+    // Read the confirmed nonce before the receipts: if it has moved past ours
+    // and none of our hashes has a receipt, something else used the nonce
+    const confirmedNonce = await provider.getTransactionCount(
+      address,
+      "latest"
+    );
+
+    for (const hash of tx.hashes) {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (receipt) {
+        loadPending().delete(nonce);
+        persist();
+        return {
+          receipt,
+          hash,
+          replaced: hash !== tx.hashes[0],
+          cancelled: hash === tx.cancelHash,
+        };
+      }
+    }
+
+    if (confirmedNonce > nonce) {
+      loadPending().delete(nonce);
+      persist();
+      throw new SignerError(
+        `Nonce ${nonce} was used by a transaction this server did not send`
+      );
+    }
+
+    const latestHash = tx.hashes[tx.hashes.length - 1];
+    if (isStuck(tx) && !reportedStuck.has(latestHash)) {
+      reportedStuck.add(latestHash);
+      console.warn(
+        `Transaction ${latestHash} (nonce ${nonce}) has not been mined since ${tx.lastSentAt}; speed it up or cancel it`
+      );
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+// Resolve once any transaction for `nonce` is mined. Concurrent callers share
+// a single watcher.
+export function waitForNonce(nonce: number): Promise<TransactionOutcome> {
+  let watcher = watchers.get(nonce);
+  if (!watcher) {
+    watcher = watch(nonce).finally(() => watchers.delete(nonce));
+    watchers.set(nonce, watcher);
+  }
+  return watcher;
+}
+
+export function getPendingTransactions(): PendingTransaction[] {
+  return Array.from(loadPending().values()).sort((a, b) => a.nonce - b.nonce);
+}
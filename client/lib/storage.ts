@@ -0,0 +1,29 @@
+import fs from "fs";
+import path from "path";
+
+// Small JSON files for server state that must survive a restart. They live in
+// DATA_DIR (default .data/ under the app root), one file per store.
+
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+export function readJsonFile<T>(name: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(getDataDir(), name), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+// Write via a temporary file and rename so a crash never leaves half a file
+export function writeJsonFile(name: string, value: unknown): void {
+  const dir = getDataDir();
+  fs.mkdirSync(dir, { recursive: true });
+
+  const target = path.join(dir, name);
+  const temporary = `${target}.${process.pid}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(value, null, 2));
+  fs.renameSync(temporary, target);
+}
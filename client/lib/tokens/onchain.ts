@@ -0,0 +1,85 @@
+import { ethers } from "ethers";
+import { TokenInfo } from "../../types";
+import { getChainId, getProvider } from "../chain";
+
+// Raised when the address exists but does not behave like an ERC20
+export class TokenMetadataError extends Error {
+  constructor(
+    message: string,
+    readonly reason: "no-code" | "not-erc20"
+  ) {
+    super(message);
+    this.name = "TokenMetadataError";
+  }
+}
+
+const erc20Interface = new ethers.Interface([
+  "function symbol() view returns (string)",
+  "function name() view returns (string)",
+  "function decimals() view returns (uint8)",
+]);
+
+// Token metadata never changes for a deployed contract, so successful reads
+// are cached for the life of the process, keyed by chain and address.
+const metadataCache = new Map<string, TokenInfo>();
+
+// Read a string getter, falling back to bytes32 for older tokens (e.g. MKR)
+// that declare `symbol()`/`name()` as returning bytes32.
+async function readStringOrBytes32(
+  address: string,
+  fn: "symbol" | "name"
+): Promise<string> {
+  const data = await getProvider().call({
+    to: address,
+    data: erc20Interface.encodeFunctionData(fn),
+  });
+
+  try {
+    return erc20Interface.decodeFunctionResult(fn, data)[0] as string;
+  } catch {
+    if (ethers.dataLength(data) !== 32) throw new Error(`Invalid ${fn}()`);
+    return ethers.decodeBytes32String(data);
+  }
+}
+
+async function readDecimals(address: string): Promise<number> {
+  const data = await getProvider().call({
+    to: address,
+    data: erc20Interface.encodeFunctionData("decimals"),
+  });
+  return Number(erc20Interface.decodeFunctionResult("decimals", data)[0]);
+}
+
+export async function fetchTokenMetadata(address: string): Promise<TokenInfo> {
+  const checksummed = ethers.getAddress(address);
+  const cacheKey = `${await getChainId()}:${checksummed}`;
+
+  const cached = metadataCache.get(cacheKey);
+  if (cached) return cached;
+
+  const code = await getProvider().getCode(checksummed);
+  if (code === "0x") {
+    throw new TokenMetadataError(
+      "No contract deployed at this address",
+      "no-code"
+    );
+  }
+
+  let info: TokenInfo;
+  try {
+    const [symbol, name, decimals] = await Promise.all([
+      readStringOrBytes32(checksummed, "symbol"),
+      readStringOrBytes32(checksummed, "name"),
+      readDecimals(checksummed),
+    ]);
+    info = { symbol, name, decimals, isValid: true };
+  } catch {
+    throw new TokenMetadataError(
+      "Contract does not implement ERC20 metadata",
+      "not-erc20"
+    );
+  }
+
+  metadataCache.set(cacheKey, info);
+  return info;
+}
@@ -0,0 +1,95 @@
+import fs from "fs";
+import path from "path";
+import { RegistryToken, TokenAllocation } from "../../types";
+
+interface TokenList {
+  name: string;
+  tokens: RegistryToken[];
+}
+
+const DEFAULT_TOKEN_LIST_PATH = path.join(
+  process.cwd(),
+  "data",
+  "tokenlist.json"
+);
+
+let cachedTokens: RegistryToken[] | null = null;
+
+// Load the token list once per process. TOKEN_LIST_PATH points at a custom
+// list in the same format as data/tokenlist.json.
+function loadTokens(): RegistryToken[] {
+  if (cachedTokens) return cachedTokens;
+
+  const listPath = process.env.TOKEN_LIST_PATH || DEFAULT_TOKEN_LIST_PATH;
+  const list: TokenList = JSON.parse(fs.readFileSync(listPath, "utf8"));
+
+  if (!Array.isArray(list.tokens)) {
+    throw new Error(`Token list at ${listPath} has no tokens array`);
+  }
+
+  cachedTokens = list.tokens.map((token) => ({
+    ...token,
+    tags: token.tags ?? [],
+  }));
+  return cachedTokens;
+}
+
+export function getTokens(chainId: number): RegistryToken[] {
+  return loadTokens().filter((token) => token.chainId === chainId);
+}
+
+export function findTokenByAddress(
+  address: string,
+  chainId: number
+): RegistryToken | undefined {
+  const needle = address.toLowerCase();
+  return getTokens(chainId).find(
+    (token) => token.address.toLowerCase() === needle
+  );
+}
+
+export function findTokenBySymbol(
+  symbol: string,
+  chainId: number
+): RegistryToken | undefined {
+  const needle = symbol.trim().toUpperCase();
+  return getTokens(chainId).find(
+    (token) => token.symbol.toUpperCase() === needle
+  );
+}
+
+// Case-insensitive match on symbol or name, optionally restricted to a tag
+export function searchTokens(
+  query: string,
+  chainId: number,
+  tag?: string
+): RegistryToken[] {
+  const needle = query.trim().toLowerCase();
+  return getTokens(chainId).filter(
+    (token) =>
+      (!tag || token.tags.includes(tag)) &&
+      (!needle ||
+        token.symbol.toLowerCase().includes(needle) ||
+        token.name.toLowerCase().includes(needle))
+  );
+}
+
+// Replace AI-supplied addresses with the registry address for each symbol.
+// Symbols the registry does not know are left as-is for the editor to flag.
+export function resolveAllocationAddresses(
+  allocations: TokenAllocation[],
+  chainId: number
+): TokenAllocation[] {
+  return allocations.map((allocation) => {
+    const token = findTokenBySymbol(allocation.token, chainId);
+    if (!token) return allocation;
+
+    if (token.address.toLowerCase() !== allocation.tokenAddress.toLowerCase()) {
+      console.warn(
+        `Replacing address ${allocation.tokenAddress} for ${token.symbol} with registry address ${token.address}`
+      );
+    }
+
+    return { ...allocation, token: token.symbol, tokenAddress: token.address };
+  });
+}
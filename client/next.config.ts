@@ -1,7 +1,20 @@
 import type { NextConfig } from "next";
+import path from "path";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    // Contract bindings are generated by TypeChain into ../typechain-types
+    externalDir: true,
+  },
+  webpack: (config) => {
+    config.resolve.alias = {
+      ...config.resolve.alias,
+      "@contracts": path.resolve(__dirname, "../typechain-types"),
+      // Generated bindings must share the client's ethers instance
+      ethers: path.resolve(__dirname, "node_modules/ethers"),
+    };
+    return config;
+  },
 };
 
 export default nextConfig;
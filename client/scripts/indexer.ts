@@ -0,0 +1,18 @@
+// Standalone event indexer: backfills from the start block, then tails new
+// blocks into the store /api/events reads. Run with `npm run indexer`; set
+// INDEXER_ENABLED=false on the web server so only this process writes.
+import { loadEnvConfig } from "@next/env";
+
+// Same .env files as `next dev` / `next start`
+loadEnvConfig(process.cwd());
+
+async function main() {
+  // Imported after the environment is loaded
+  const { runIndexer } = await import("../lib/indexer");
+  runIndexer();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
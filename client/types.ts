@@ -13,11 +13,227 @@ export interface ValidationError {
   message: string;
 }
 
+// Allocation in the format AIBasketStrategy.setAllocations expects
+export interface ContractAllocation {
+  token: string;
+  percentage: number; // basis points (10000 = 100%)
+}
+
+// Who signs setAllocations: the user's browser wallet, or the server's
+// PRIVATE_KEY (opt-in, for automation)
+export type SigningMode = "wallet" | "server";
+
+// Roles in increasing order of privilege: viewers read, advisors request and
+// simulate suggestions, operators send transactions
+export type AuthRole = "viewer" | "advisor" | "operator";
+
+// Caller identity resolved from an API key or a signed-in wallet session
+export interface AuthIdentity {
+  id: string;
+  role: AuthRole;
+  method: "api-key" | "session";
+}
+
+// Public contract configuration served by GET /api/contract
+export interface ContractConfig {
+  chainId: number;
+  basketStrategyAddress: string;
+  vaultAddress?: string;
+  serverSigningEnabled: boolean;
+}
+
+// Outcome of a setAllocations dry run; wei amounts are decimal strings
+export interface SimulationResult {
+  willSucceed: boolean;
+  revertReason?: string;
+  gasEstimate?: string;
+  feeEstimate?: string;
+  allocations: ContractAllocation[];
+}
+
+// Lifecycle of a server-sent transaction; mined, failed and replaced are final
+export type JobStatus =
+  "queued" | "submitted" | "mined" | "failed" | "replaced";
+
+export interface TransactionReceiptSummary {
+  blockNumber: number;
+  blockHash: string;
+  gasUsed: string;
+  effectiveGasPrice: string;
+  status: number;
+}
+
+// Background transaction tracked by /api/jobs/[id]
+export interface TransactionJob {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  transactionHash?: string;
+  replacementHash?: string;
+  confirmations: number;
+  receipt?: TransactionReceiptSummary;
+  error?: string;
+}
+
+// In-flight transaction from the server signer, one per nonce. `hashes` holds
+// the original broadcast followed by any fee-bumped replacements; wei values
+// are decimal strings.
+export interface PendingTransaction {
+  nonce: number;
+  hashes: string[];
+  to: string;
+  data: string;
+  value: string;
+  gasLimit: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  cancelHash?: string;
+  jobId?: string;
+  kind?: string;
+  sentAt: string;
+  lastSentAt: string;
+}
+
+export type StrategyType = "basket" | "simple" | "none" | "unknown";
+
+// A token held by the basket strategy. Amounts are base-unit decimal strings;
+// valueInAsset is null when the token has no usable price feed.
+export interface PortfolioHolding {
+  token: string;
+  symbol: string;
+  decimals: number;
+  targetBps: number;
+  balance: string;
+  valueInAsset: string | null;
+}
+
+// Vault and strategy state read at a single block by GET /api/portfolio.
+// Asset amounts are decimal strings in base-asset units.
+export interface PortfolioSnapshot {
+  blockNumber: number;
+  vault: {
+    address: string;
+    asset: string;
+    assetSymbol: string;
+    assetDecimals: number;
+    totalAssets: string;
+    totalSupply: string;
+    pricePerShare: string; // assets for one whole share
+    idleAssets: string;
+    paused: boolean;
+  };
+  strategy: {
+    address: string;
+    type: StrategyType;
+    totalAssets: string;
+    idleAssets: string;
+    holdings: PortfolioHolding[];
+  };
+}
+
+// One token in a current-vs-suggested comparison. Values are base-asset units
+// as decimal strings; tradeSize is signed (positive buys, negative sells) and
+// null when the current holding cannot be valued.
+export interface AllocationDiffRow {
+  token: string;
+  symbol: string;
+  currentBps: number;
+  targetBps: number;
+  deltaBps: number;
+  currentValue: string | null;
+  targetValue: string;
+  tradeSize: string | null;
+}
+
+export type IndexedContract = "vault" | "basketStrategy" | "simpleStrategy";
+
+// Contract event stored by the indexer; uint values in args are decimal strings
+export interface IndexedEvent {
+  id: number;
+  contract: IndexedContract;
+  address: string;
+  event: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, unknown>;
+}
+
+export interface IndexerStatus {
+  running: boolean;
+  startBlock: number | null; // null while the chain is unreachable
+  indexedBlock: number | null;
+  headBlock: number | null;
+  lastSyncedAt?: string;
+  lastError?: string;
+}
+
+// On-chain limits of the deployed AIBasketStrategy, keyed by lowercased token address
+export interface StrategyConstraints {
+  maxAllocations: number;
+  maxBps: number;
+  tokens: Record<string, { allowed: boolean; hasPriceFeed: boolean }>;
+}
+
+// One observation of a token's price in the base asset, keyed by UTC day
+export interface PricePoint {
+  date: string; // YYYY-MM-DD
+  price: number;
+}
+
+export type RebalanceFrequency = "daily" | "weekly" | "monthly" | "never";
+
+// How often a backtest checks the portfolio, and how far a position must
+// drift from target before it is traded (100 bps mirrors the strategy's 1%)
+export interface RebalanceRule {
+  frequency: RebalanceFrequency;
+  thresholdBps: number;
+}
+
+// Backtest metrics. Returns, volatility and drawdown are fractions (0.1 =
+// 10%); turnover is one-way traded value over average portfolio value.
+export interface BacktestResult {
+  startDate: string;
+  endDate: string;
+  observations: number;
+  initialValue: number;
+  finalValue: number;
+  totalReturn: number;
+  annualizedReturn: number;
+  volatility: number;
+  maxDrawdown: number;
+  sharpeRatio: number | null;
+  turnover: number;
+  rebalances: number;
+  fees: number;
+  rule: RebalanceRule;
+  equityCurve: { date: string; value: number }[];
+}
+
+export type RiskTolerance = "conservative" | "moderate" | "aggressive";
+
+export type InvestmentHorizon = "short" | "medium" | "long";
+
+// Investor preferences the advice must respect. Excluded tokens are symbols;
+// preferred categories are token-registry tags such as "stablecoin".
+export interface RiskProfile {
+  riskTolerance: RiskTolerance;
+  horizon: InvestmentHorizon;
+  maxSingleAssetPercent: number;
+  excludedTokens: string[];
+  preferredCategories: string[];
+}
+
 export interface InvestmentAdvice {
   allocations: TokenAllocation[];
   reasons: string;
   estimatedValue: number;
   warnings: string;
+  riskProfile?: RiskProfile; // profile the advice was generated for
 }
 
 export interface TokenInfo {
@@ -27,8 +243,68 @@ export interface TokenInfo {
   isValid: boolean;
 }
 
+// Token entry from the server-side token registry (token-list format)
+export interface RegistryToken {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  tags: string[];
+}
+
+export type AdvisorProviderName = "gemini" | "openai" | "rule-based";
+
+// A schema validation failure located by JSON path, e.g. "$.allocations[0].token"
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
 export interface APIResponse {
   success: boolean;
-  data?: InvestmentAdvice | { error: string; raw: string };
+  data?: InvestmentAdvice;
+  error?: string;
+  issues?: SchemaIssue[];
+  suggestionId?: string; // history record for this request
+}
+
+// Result of sending a suggestion's allocations to the strategy
+export interface SuggestionExecution {
+  status: "confirmed" | "failed";
+  signingMode: SigningMode;
+  transactionHash?: string;
   error?: string;
+  executedAt: string;
 }
+
+// One /api/ai/suggest request and what became of its answer. `advice` holds
+// the validated response with registry addresses; `error` and `issues` are
+// set instead when the provider failed.
+export interface SuggestionRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  requestedBy: string;
+  input: { amount: number; baseToken: string; riskProfile?: RiskProfile };
+  provider: AdvisorProviderName;
+  model: string;
+  promptVersion: string;
+  attempts?: number;
+  advice?: InvestmentAdvice;
+  error?: string;
+  issues?: SchemaIssue[];
+  editedAllocations?: TokenAllocation[];
+  validationErrors?: ValidationError[];
+  simulation?: SimulationResult;
+  execution?: SuggestionExecution;
+}
+
+// Fields the editor reports back to a history record
+export type SuggestionUpdate = Partial<
+  Pick<
+    SuggestionRecord,
+    "editedAllocations" | "validationErrors" | "simulation" | "execution"
+  >
+>;
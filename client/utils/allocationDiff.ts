@@ -0,0 +1,86 @@
+import {
+  AllocationDiffRow,
+  PortfolioSnapshot,
+  TokenAllocation,
+} from "../types";
+import {
+  MAX_BPS,
+  percentageToBps,
+  toContractAllocations,
+} from "./allocationMath";
+
+// Compare the strategy's on-chain allocations and holdings with a suggested
+// allocation. Target values are shares of the strategy's current total
+// assets, so tradeSize estimates what a rebalance to the suggestion would
+// swap. Tokens only held on-chain appear with a target of zero.
+export function diffAllocations(
+  portfolio: PortfolioSnapshot,
+  suggested: TokenAllocation[]
+): AllocationDiffRow[] {
+  const total = BigInt(portfolio.strategy.totalAssets);
+  // The bps /api/contract would submit. While the total is off 100% nothing
+  // can be submitted, so the entered percentages are shown unscaled.
+  const enteredBps = suggested.map((a) => percentageToBps(a.percentage));
+  const enteredTotal = enteredBps.reduce((sum, bps) => sum + bps, 0);
+  const suggestedBps =
+    Math.abs(enteredTotal - MAX_BPS) <= 1
+      ? toContractAllocations(suggested).map((a) => a.percentage)
+      : enteredBps;
+
+  const rows = new Map<string, AllocationDiffRow>();
+
+  for (const holding of portfolio.strategy.holdings) {
+    rows.set(holding.token.toLowerCase(), {
+      token: holding.token,
+      symbol: holding.symbol,
+      currentBps: holding.targetBps,
+      targetBps: 0,
+      deltaBps: 0,
+      currentValue: holding.valueInAsset,
+      targetValue: "0",
+      tradeSize: null,
+    });
+  }
+
+  // Base asset the strategy holds but has no allocation for is idle cash
+  const asset = portfolio.vault.asset.toLowerCase();
+
+  suggested.forEach((allocation, index) => {
+    const key = allocation.tokenAddress.toLowerCase();
+    const existing = rows.get(key);
+    const unallocatedValue =
+      key === asset ? portfolio.strategy.idleAssets : "0";
+    rows.set(key, {
+      token: existing?.token ?? allocation.tokenAddress,
+      symbol: existing?.symbol ?? allocation.token,
+      currentBps: existing?.currentBps ?? 0,
+      targetBps: (existing?.targetBps ?? 0) + suggestedBps[index],
+      deltaBps: 0,
+      currentValue: existing ? existing.currentValue : unallocatedValue,
+      targetValue: "0",
+      tradeSize: null,
+    });
+  });
+
+  return Array.from(rows.values()).map((row) => {
+    const targetValue = (total * BigInt(row.targetBps)) / BigInt(MAX_BPS);
+    return {
+      ...row,
+      deltaBps: row.targetBps - row.currentBps,
+      targetValue: targetValue.toString(),
+      tradeSize:
+        row.currentValue === null
+          ? null
+          : (targetValue - BigInt(row.currentValue)).toString(),
+    };
+  });
+}
+
+// Total bought by a rebalance, in base-asset units: a rough measure of how
+// disruptive it is. Sells fund the buys, so only one side is counted.
+export function rebalanceTurnover(rows: AllocationDiffRow[]): bigint {
+  return rows.reduce((sum, row) => {
+    const trade = row.tradeSize === null ? BigInt(0) : BigInt(row.tradeSize);
+    return trade > BigInt(0) ? sum + trade : sum;
+  }, BigInt(0));
+}
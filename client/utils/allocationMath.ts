@@ -0,0 +1,169 @@
+import { formatUnits, parseUnits } from "ethers";
+import { ContractAllocation, TokenAllocation } from "../types";
+
+// Basis points in 100%, matching AIBasketStrategy.MAX_BPS
+export const MAX_BPS = 10000;
+
+export function percentageToBps(percentage: number): number {
+  return Math.round(percentage * 100);
+}
+
+export function bpsToPercentage(bps: number): number {
+  return bps / 100;
+}
+
+// Apportion weights (e.g. percentages) into integer basis points that sum to
+// exactly MAX_BPS, using the largest-remainder method. Ties go to the earlier
+// entry so the result is deterministic.
+export function toBasisPoints(weights: number[]): number[] {
+  const clamped = weights.map((weight) =>
+    Number.isFinite(weight) && weight > 0 ? weight : 0
+  );
+  const total = clamped.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) return clamped.map(() => 0);
+
+  const exact = clamped.map((weight) => (weight / total) * MAX_BPS);
+  const bps = exact.map((value) => Math.floor(value));
+  let remaining = MAX_BPS - bps.reduce((sum, value) => sum + value, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - bps[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; remaining > 0; i++, remaining--) {
+    bps[byRemainder[i % byRemainder.length].index] += 1;
+  }
+
+  return bps;
+}
+
+// Convert a human amount to base-token units. Invalid or non-positive input
+// yields zero so callers can use raw form values.
+export function toBaseUnits(amount: number | string, decimals: number): bigint {
+  const value = typeof amount === "string" ? parseFloat(amount) : amount;
+  if (!Number.isFinite(value) || value <= 0) return BigInt(0);
+
+  const text =
+    typeof amount === "string" && /^\d+(\.\d+)?$/.test(amount.trim())
+      ? amount.trim()
+      : value.toLocaleString("en-US", {
+          useGrouping: false,
+          maximumFractionDigits: Math.min(decimals, 20),
+        });
+
+  // Drop precision the token cannot represent instead of throwing
+  const [whole, fraction = ""] = text.split(".");
+  return parseUnits(
+    fraction ? `${whole}.${fraction.slice(0, decimals)}` : whole,
+    decimals
+  );
+}
+
+// Split `total` base units by `bps` so the parts sum to exactly `total`;
+// rounding dust goes to the entries with the largest remainders.
+export function splitAmount(total: bigint, bps: number[]): bigint[] {
+  const denominator = BigInt(MAX_BPS);
+  const parts = bps.map((value) => (total * BigInt(value)) / denominator);
+  const allocated = parts.reduce((sum, part) => sum + part, BigInt(0));
+  let dust = bps.some((value) => value > 0) ? total - allocated : BigInt(0);
+
+  const byRemainder = bps
+    .map((value, index) => ({
+      index,
+      remainder: (total * BigInt(value)) % denominator,
+    }))
+    .sort((a, b) =>
+      a.remainder === b.remainder
+        ? a.index - b.index
+        : a.remainder > b.remainder
+          ? -1
+          : 1
+    );
+
+  for (let i = 0; dust > BigInt(0); i++, dust--) {
+    parts[byRemainder[i % byRemainder.length].index] += BigInt(1);
+  }
+
+  return parts;
+}
+
+// Amount of the base token for a single percentage of `totalAmount`
+export function amountForPercentage(
+  totalAmount: number | string,
+  percentage: number,
+  decimals: number
+): number {
+  const total = toBaseUnits(totalAmount, decimals);
+  const bps = Math.max(0, Math.min(MAX_BPS, percentageToBps(percentage)));
+  return Number(formatUnits((total * BigInt(bps)) / BigInt(MAX_BPS), decimals));
+}
+
+// Percentage of `totalAmount` represented by `amount`, rounded down to whole bps
+export function percentageForAmount(
+  totalAmount: number | string,
+  amount: number,
+  decimals: number
+): number {
+  const total = toBaseUnits(totalAmount, decimals);
+  if (total === BigInt(0)) return 0;
+  const part = toBaseUnits(amount, decimals);
+  return bpsToPercentage(Number((part * BigInt(MAX_BPS)) / total));
+}
+
+// Rescale allocations to exactly 100% in whole bps, with amounts that add up
+// to `totalAmount` in base-token units
+export function normalizeAllocations(
+  allocations: TokenAllocation[],
+  totalAmount: number | string,
+  decimals: number
+): TokenAllocation[] {
+  const bps = toBasisPoints(allocations.map((a) => a.percentage));
+  const amounts = splitAmount(toBaseUnits(totalAmount, decimals), bps);
+
+  return allocations.map((allocation, index) => ({
+    ...allocation,
+    percentage: bpsToPercentage(bps[index]),
+    amount: Number(formatUnits(amounts[index], decimals)),
+  }));
+}
+
+// Allocations in the format AIBasketStrategy.setAllocations expects. The
+// percentages must already total 100% to within 1 bp (see
+// validateAllocations); only that rounding residue is apportioned, by largest
+// remainder, so the basis points sum to exactly MAX_BPS.
+export function toContractAllocations(
+  allocations: TokenAllocation[]
+): ContractAllocation[] {
+  const exact = allocations.map((a) => a.percentage * 100);
+  const bps = allocations.map((a) => percentageToBps(a.percentage));
+  const total = bps.reduce((sum, value) => sum + value, 0);
+  if (Math.abs(total - MAX_BPS) > 1) {
+    throw new Error(
+      `Allocations total ${bpsToPercentage(total)}%. Must equal 100%`
+    );
+  }
+
+  // Short: the entry rounded down furthest gains a bp. Over: the entry
+  // rounded up furthest loses one. Ties go to the earlier entry.
+  const residue = MAX_BPS - total;
+  if (residue !== 0) {
+    const remainders = exact.map((value, index) => value - bps[index]);
+    const target = remainders.reduce(
+      (best, remainder, index) =>
+        (
+          residue > 0
+            ? remainder > remainders[best]
+            : remainder < remainders[best]
+        )
+          ? index
+          : best,
+      0
+    );
+    bps[target] += residue;
+  }
+
+  return allocations.map((allocation, index) => ({
+    token: allocation.tokenAddress,
+    percentage: bps[index],
+  }));
+}
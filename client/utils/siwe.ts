@@ -0,0 +1,70 @@
+// Sign-In with Ethereum (EIP-4361) messages, shared by the browser that signs
+// them and the server that verifies them.
+
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:";
+
+export function formatSiweMessage(message: SiweMessage): string {
+  const lines = [
+    `${message.domain}${HEADER_SUFFIX}`,
+    message.address,
+    "",
+    message.statement,
+    "",
+    `URI: ${message.uri}`,
+    "Version: 1",
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`,
+  ];
+  if (message.expirationTime) {
+    lines.push(`Expiration Time: ${message.expirationTime}`);
+  }
+  return lines.join("\n");
+}
+
+// Parse a message produced by formatSiweMessage; null if it is malformed
+export function parseSiweMessage(text: string): SiweMessage | null {
+  const lines = text.split("\n");
+  if (lines.length < 10 || !lines[0].endsWith(HEADER_SUFFIX)) return null;
+
+  const fields: Record<string, string> = {};
+  for (const line of lines.slice(5)) {
+    const separator = line.indexOf(": ");
+    if (separator > 0) {
+      fields[line.slice(0, separator)] = line.slice(separator + 2);
+    }
+  }
+
+  const chainId = parseInt(fields["Chain ID"] ?? "", 10);
+  if (
+    fields["Version"] !== "1" ||
+    !fields["URI"] ||
+    !fields["Nonce"] ||
+    !fields["Issued At"] ||
+    !Number.isInteger(chainId)
+  ) {
+    return null;
+  }
+
+  return {
+    domain: lines[0].slice(0, -HEADER_SUFFIX.length),
+    address: lines[1],
+    statement: lines[3],
+    uri: fields["URI"],
+    chainId,
+    nonce: fields["Nonce"],
+    issuedAt: fields["Issued At"],
+    expirationTime: fields["Expiration Time"],
+  };
+}
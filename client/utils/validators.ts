@@ -1,11 +1,17 @@
-import { TokenAllocation, ValidationError } from "../types";
+import {
+  StrategyConstraints,
+  TokenAllocation,
+  ValidationError,
+} from "../types";
+import { MAX_BPS, percentageToBps } from "./allocationMath";
 
 export function validateAllocations(
   allocations: TokenAllocation[],
-  totalAmount: number
+  totalAmount: number,
+  constraints?: StrategyConstraints
 ): ValidationError[] {
   const errors: ValidationError[] = [];
-  let totalPercentage = 0;
+  let totalBps = 0;
 
   allocations.forEach((allocation, index) => {
     // Token name validation
@@ -47,19 +53,77 @@ export function validateAllocations(
       });
     }
 
-    totalPercentage += allocation.percentage;
+    totalBps += percentageToBps(allocation.percentage);
   });
 
-  // Total percentage validation
-  if (Math.abs(totalPercentage - 100) > 0.01) {
+  // Total percentage validation, in whole basis points. A 1 bp residue is
+  // tolerated because submission apportions it by largest remainder.
+  if (Math.abs(totalBps - MAX_BPS) > 1) {
     errors.push({
       index: -1,
       field: "total",
-      message: `Total percentage is ${totalPercentage.toFixed(
+      message: `Total percentage is ${(totalBps / 100).toFixed(
         2
       )}%. Must equal 100%`,
     });
   }
 
+  if (constraints) {
+    errors.push(...validateStrategyConstraints(allocations, constraints));
+  }
+
+  return errors;
+}
+
+// Checks mirroring the require() statements in AIBasketStrategy.setAllocations
+export function validateStrategyConstraints(
+  allocations: TokenAllocation[],
+  constraints: StrategyConstraints
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (allocations.length > constraints.maxAllocations) {
+    errors.push({
+      index: -1,
+      field: "allocations",
+      message: `Strategy accepts at most ${constraints.maxAllocations} allocations`,
+    });
+  }
+
+  // A raw total within 1 bp of 100% is submitted as exactly MAX_BPS once
+  // toContractAllocations apportions the residue
+  const rawBps = allocations.reduce(
+    (sum, allocation) => sum + percentageToBps(allocation.percentage),
+    0
+  );
+  const totalBps = Math.abs(rawBps - MAX_BPS) <= 1 ? MAX_BPS : rawBps;
+
+  allocations.forEach((allocation, index) => {
+    const token = constraints.tokens[allocation.tokenAddress.toLowerCase()];
+    if (!token) return;
+
+    if (!token.allowed) {
+      errors.push({
+        index,
+        field: "tokenAddress",
+        message: "Token is not allowed by the strategy",
+      });
+    } else if (!token.hasPriceFeed) {
+      errors.push({
+        index,
+        field: "tokenAddress",
+        message: "Token has no price feed configured on the strategy",
+      });
+    }
+  });
+
+  if (totalBps > constraints.maxBps) {
+    errors.push({
+      index: -1,
+      field: "allocations",
+      message: `Total of ${totalBps} bps exceeds the strategy maximum of ${constraints.maxBps}`,
+    });
+  }
+
   return errors;
 }
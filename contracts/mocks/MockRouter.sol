@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+/// @notice Constant-product router with the Uniswap V2 swap interface, for local networks and tests only.
+/// @dev Holds the reserves of every pool itself; there are no pair contracts or LP tokens.
+contract MockRouter {
+    using SafeERC20 for IERC20;
+
+    uint256 public constant FEE_BPS = 30; // 0.3%, as in Uniswap V2
+    uint256 private constant MAX_BPS = 10000;
+
+    // reserves[tokenA][tokenB] is the pool's balance of tokenA
+    mapping(address => mapping(address => uint256)) public reserves;
+
+    event LiquidityAdded(address indexed tokenA, address indexed tokenB, uint256 amountA, uint256 amountB);
+    event Swap(address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut, address to);
+
+    /// @notice Seed or deepen the tokenA/tokenB pool. The first deposit sets the price.
+    function addLiquidity(address tokenA, address tokenB, uint256 amountA, uint256 amountB) external {
+        require(tokenA != tokenB, "MockRouter: identical tokens");
+        require(amountA > 0 && amountB > 0, "MockRouter: zero amount");
+
+        IERC20(tokenA).safeTransferFrom(msg.sender, address(this), amountA);
+        IERC20(tokenB).safeTransferFrom(msg.sender, address(this), amountB);
+        reserves[tokenA][tokenB] += amountA;
+        reserves[tokenB][tokenA] += amountB;
+
+        emit LiquidityAdded(tokenA, tokenB, amountA, amountB);
+    }
+
+    function getReserves(address tokenA, address tokenB) external view returns (uint256 reserveA, uint256 reserveB) {
+        return (reserves[tokenA][tokenB], reserves[tokenB][tokenA]);
+    }
+
+    function getAmountOut(uint256 amountIn, uint256 reserveIn, uint256 reserveOut) public pure returns (uint256) {
+        require(amountIn > 0, "MockRouter: zero input");
+        require(reserveIn > 0 && reserveOut > 0, "MockRouter: no liquidity");
+        uint256 amountInWithFee = amountIn * (MAX_BPS - FEE_BPS);
+        return (amountInWithFee * reserveOut) / (reserveIn * MAX_BPS + amountInWithFee);
+    }
+
+    function getAmountsOut(uint256 amountIn, address[] memory path) public view returns (uint256[] memory amounts) {
+        require(path.length >= 2, "MockRouter: invalid path");
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            amounts[i + 1] = getAmountOut(
+                amounts[i],
+                reserves[path[i]][path[i + 1]],
+                reserves[path[i + 1]][path[i]]
+            );
+        }
+    }
+
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts) {
+        require(block.timestamp <= deadline, "MockRouter: expired");
+        amounts = getAmountsOut(amountIn, path);
+        require(amounts[amounts.length - 1] >= amountOutMin, "MockRouter: insufficient output amount");
+
+        IERC20(path[0]).safeTransferFrom(msg.sender, address(this), amountIn);
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            reserves[path[i]][path[i + 1]] += amounts[i];
+            reserves[path[i + 1]][path[i]] -= amounts[i + 1];
+            emit Swap(path[i], path[i + 1], amounts[i], amounts[i + 1], to);
+        }
+        IERC20(path[path.length - 1]).safeTransfer(to, amounts[amounts.length - 1]);
+    }
+}
@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../IStrategy.sol";
+
+/// @notice Strategy with controllable liquidity and losses, for tests only.
+/// @dev `lockedAssets` of the balance cannot be freed, so the vault sees a shortfall when it asks for more.
+contract MockStrategy is IStrategy {
+    using SafeERC20 for IERC20;
+
+    IERC20 public immutable asset;
+    address public immutable vault;
+    uint256 public lockedAssets;
+
+    event Invested(address indexed vault, uint256 amount);
+    event Freed(address indexed vault, uint256 amount);
+
+    constructor(IERC20 _asset, address _vault) {
+        asset = _asset;
+        vault = _vault;
+    }
+
+    function invest(uint256 amount) external override {
+        require(msg.sender == vault, "MockStrategy: only vault");
+        emit Invested(msg.sender, amount);
+    }
+
+    /// @notice Returns as much of `amount` as is not locked
+    function freeFunds(uint256 amount) external override {
+        require(msg.sender == vault, "MockStrategy: only vault");
+        uint256 balance = asset.balanceOf(address(this));
+        uint256 available = balance > lockedAssets ? balance - lockedAssets : 0;
+        uint256 toTransfer = amount > available ? available : amount;
+        if (toTransfer > 0) {
+            asset.safeTransfer(vault, toTransfer);
+        }
+        emit Freed(msg.sender, toTransfer);
+    }
+
+    function totalAssets() external view override returns (uint256) {
+        return asset.balanceOf(address(this));
+    }
+
+    function setLockedAssets(uint256 amount) external {
+        lockedAssets = amount;
+    }
+
+    /// @notice Lose `amount` of the managed assets, as a bad trade or exploit would
+    function simulateLoss(uint256 amount) external {
+        asset.safeTransfer(address(0xdead), amount);
+    }
+}
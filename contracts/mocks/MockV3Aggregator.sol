@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.20;
+
+/// @notice Chainlink price feed whose answer is set by hand, for local networks and tests only.
+/// @dev Implements the parts of AggregatorV3Interface that AIBasketStrategy reads.
+contract MockV3Aggregator {
+    uint8 public immutable decimals;
+    int256 public latestAnswer;
+    uint256 public latestTimestamp;
+    uint80 public latestRound;
+
+    event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt);
+
+    constructor(uint8 _decimals, int256 initialAnswer) {
+        decimals = _decimals;
+        updateAnswer(initialAnswer);
+    }
+
+    /// @notice Publish a new price as the next round
+    function updateAnswer(int256 answer) public {
+        latestRound++;
+        latestAnswer = answer;
+        latestTimestamp = block.timestamp;
+        emit AnswerUpdated(answer, latestRound, block.timestamp);
+    }
+
+    function latestRoundData()
+        external
+        view
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        return (latestRound, latestAnswer, latestTimestamp, latestTimestamp, latestRound);
+    }
+}
@@ -3,10 +3,24 @@ import "@nomicfoundation/hardhat-toolbox";
 
 const config: HardhatUserConfig = {
   solidity: "0.8.28",
+  typechain: {
+    // Also imported by the Next.js client through its @contracts alias
+    outDir: "typechain-types",
+    target: "ethers-v6",
+  },
   networks: {
     hardhat: {
       chainId: 31337,
     },
+    // npx hardhat ignition deploy ignition/modules/AISavings.ts \
+    //   --network sepolia --parameters ignition/parameters/sepolia.json
+    sepolia: {
+      chainId: 11155111,
+      url: process.env.SEPOLIA_RPC_URL || "https://rpc.sepolia.org",
+      accounts: process.env.DEPLOYER_PRIVATE_KEY
+        ? [process.env.DEPLOYER_PRIVATE_KEY]
+        : "remote",
+    },
   },
 };
 
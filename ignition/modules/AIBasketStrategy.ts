@@ -0,0 +1,84 @@
+import { network } from "hardhat";
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { LOCAL_TOKENS } from "../../scripts/localDefi";
+import LocalDeFiModule from "./LocalDeFi";
+import VaultModule from "./Vault";
+
+// Networks without a real DEX or Chainlink; LocalDeFi supplies mocks there
+const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+// Tokens allowed on live networks. Each is a separate call, so the list is
+// fixed when the module is built; the addresses are parameters named after
+// the symbol, e.g. `usdc` and `usdcFeed` (WETH reuses the router's `weth`).
+// See ignition/parameters/sepolia.json. OCT has no public feed, so the
+// required `assetFeed` is left for the deployer to add to that file.
+const ALLOWED_TOKENS = ["WETH", "USDC", "LINK"];
+
+// AIBasketStrategy with its tokens allowed and price feeds set. The deployer
+// owns it while wiring and then hands it to `owner` (default: the deployer).
+const AIBasketStrategyModule = buildModule("AIBasketStrategyModule", (m) => {
+  const { oceanToken, vault } = m.useModule(VaultModule);
+  const owner = m.getParameter("owner", m.getAccount(0));
+
+  let basketStrategy;
+  let priceFeeds;
+  if (LOCAL_NETWORKS.includes(network.name)) {
+    const local = m.useModule(LocalDeFiModule);
+    basketStrategy = m.contract("AIBasketStrategy", [
+      oceanToken,
+      vault,
+      local.router,
+      local.weth,
+      m.getAccount(0),
+    ]);
+    priceFeeds = LOCAL_TOKENS.map(({ symbol }) => {
+      const key = symbol.toLowerCase();
+      const token =
+        symbol === "OCT"
+          ? oceanToken
+          : symbol === "WETH"
+            ? local.weth
+            : local[key];
+      return { symbol, token, feed: local[`${key}Feed`] };
+    });
+  } else {
+    basketStrategy = m.contract("AIBasketStrategy", [
+      oceanToken,
+      vault,
+      m.getParameter("router"),
+      m.getParameter("weth"),
+      m.getAccount(0),
+    ]);
+    priceFeeds = [
+      { symbol: "OCT", token: oceanToken, feed: m.getParameter("assetFeed") },
+      ...ALLOWED_TOKENS.map((symbol) => {
+        const key = symbol.toLowerCase();
+        return {
+          symbol,
+          token: m.getParameter<string>(key),
+          feed: m.getParameter<string>(`${key}Feed`),
+        };
+      }),
+    ];
+  }
+
+  // The base asset is always allowed but still needs a feed, since every
+  // position is valued against it
+  const wiring = priceFeeds.flatMap(({ symbol, token, feed }) => [
+    ...(token === oceanToken
+      ? []
+      : [
+          m.call(basketStrategy, "allowToken", [token], {
+            id: `allowToken${symbol}`,
+          }),
+        ]),
+    m.call(basketStrategy, "setPriceFeed", [token, feed], {
+      id: `setPriceFeed${symbol}`,
+    }),
+  ]);
+  m.call(basketStrategy, "transferOwnership", [owner], { after: wiring });
+
+  return { oceanToken, vault, basketStrategy };
+});
+
+export default AIBasketStrategyModule;
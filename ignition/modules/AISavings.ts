@@ -0,0 +1,26 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import AIBasketStrategyModule from "./AIBasketStrategy";
+import SimpleStrategyModule from "./SimpleStrategy";
+
+// The whole system: token, vault, both strategies, and the vault pointed at
+// SimpleStrategy. Switching to the basket strategy later follows the same
+// pause -> setStrategy -> unpause sequence.
+//
+//   npx hardhat ignition deploy ignition/modules/AISavings.ts \
+//     --network localhost --parameters ignition/parameters/localhost.json
+const AISavingsModule = buildModule("AISavingsModule", (m) => {
+  const { oceanToken, vault, simpleStrategy } =
+    m.useModule(SimpleStrategyModule);
+  const { basketStrategy } = m.useModule(AIBasketStrategyModule);
+
+  // The vault only accepts a new strategy while paused
+  const pause = m.call(vault, "pause");
+  const setStrategy = m.call(vault, "setStrategy", [simpleStrategy], {
+    after: [pause],
+  });
+  m.call(vault, "unpause", [], { after: [setStrategy] });
+
+  return { oceanToken, vault, simpleStrategy, basketStrategy };
+});
+
+export default AISavingsModule;
@@ -0,0 +1,88 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import {
+  FEED_DECIMALS,
+  feedAnswer,
+  LOCAL_TOKENS,
+  poolAmount,
+} from "../../scripts/localDefi";
+import OceanTokenModule from "./OceanToken";
+
+// Mock basket tokens, WETH, a constant-product router and settable price
+// feeds for hardhat/localhost, as stood up by scripts/deploy.ts. Every
+// token gets a TOKEN/WETH pool seeded at its feed price.
+//
+// Results: `router`, `weth`, one MockERC20 per other token keyed by its
+// lowercased symbol (`usdc`, ...) and one feed per token (`octFeed`,
+// `wethFeed`, `usdcFeed`, ...).
+const LocalDeFiModule = buildModule("LocalDeFiModule", (m) => {
+  const { oceanToken } = m.useModule(OceanTokenModule);
+  const deployer = m.getAccount(0);
+
+  const weth = m.contract("MockWETH");
+  const router = m.contract("MockRouter");
+
+  const tokens = LOCAL_TOKENS.map((config) => {
+    const token =
+      config.symbol === "OCT"
+        ? oceanToken
+        : config.symbol === "WETH"
+          ? weth
+          : m.contract(
+              "MockERC20",
+              [config.name, config.symbol, config.decimals],
+              { id: config.symbol }
+            );
+    const feed = m.contract(
+      "MockV3Aggregator",
+      [FEED_DECIMALS, feedAnswer(config.price)],
+      { id: `${config.symbol}Feed` }
+    );
+    return { config, token, feed };
+  });
+
+  const pools = tokens.filter(({ config }) => config.symbol !== "WETH");
+  const wethPerPool = poolAmount(
+    LOCAL_TOKENS.find((config) => config.symbol === "WETH")!
+  );
+  const wethTotal = wethPerPool * BigInt(pools.length);
+  const wrap = m.call(weth, "deposit", [], { value: wethTotal });
+  const approveWeth = m.call(weth, "approve", [router, wethTotal], {
+    after: [wrap],
+  });
+
+  for (const { config, token } of pools) {
+    const amount = poolAmount(config);
+    const minted =
+      config.symbol === "OCT"
+        ? []
+        : [
+            m.call(token, "mint", [deployer, amount], {
+              id: `mint${config.symbol}`,
+            }),
+          ];
+    const approve = m.call(token, "approve", [router, amount], {
+      id: `approve${config.symbol}`,
+      after: minted,
+    });
+    m.call(router, "addLiquidity", [token, weth, amount, wethPerPool], {
+      id: `addLiquidity${config.symbol}`,
+      after: [approve, approveWeth],
+    });
+  }
+
+  const results = Object.fromEntries(
+    tokens.flatMap(({ config, token, feed }) => {
+      const key = config.symbol.toLowerCase();
+      return config.symbol === "OCT" || config.symbol === "WETH"
+        ? [[`${key}Feed`, feed]]
+        : [
+            [key, token],
+            [`${key}Feed`, feed],
+          ];
+    })
+  );
+
+  return { router, weth, ...results };
+});
+
+export default LocalDeFiModule;
@@ -0,0 +1,10 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// The vault asset; the deployer receives the whole initial supply
+const OceanTokenModule = buildModule("OceanTokenModule", (m) => {
+  const oceanToken = m.contract("OceanToken");
+
+  return { oceanToken };
+});
+
+export default OceanTokenModule;
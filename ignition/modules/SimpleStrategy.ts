@@ -0,0 +1,17 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import VaultModule from "./Vault";
+
+const SimpleStrategyModule = buildModule("SimpleStrategyModule", (m) => {
+  const { oceanToken, vault } = m.useModule(VaultModule);
+  const owner = m.getParameter("owner", m.getAccount(0));
+
+  const simpleStrategy = m.contract("SimpleStrategy", [
+    oceanToken,
+    vault,
+    owner,
+  ]);
+
+  return { oceanToken, vault, simpleStrategy };
+});
+
+export default SimpleStrategyModule;
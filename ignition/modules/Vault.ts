@@ -0,0 +1,16 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import OceanTokenModule from "./OceanToken";
+
+// ERC4626 vault over OCT, owned by the deployer. `manager` may invest and
+// free funds alongside the owner; it defaults to the deployer.
+const VaultModule = buildModule("VaultModule", (m) => {
+  const { oceanToken } = m.useModule(OceanTokenModule);
+  const manager = m.getParameter("manager", m.getAccount(0));
+
+  const vault = m.contract("Vault", [oceanToken]);
+  m.call(vault, "setManager", [manager]);
+
+  return { oceanToken, vault };
+});
+
+export default VaultModule;
@@ -1,16 +1,103 @@
-import { ethers } from "hardhat";
-
-interface DeploymentInfo {
-  oceanTokenAddress: string;
-  vaultAddress: string;
-  simpleStrategyAddress: string;
-  basketStrategyAddress: string;
-  deployer: string;
-  network: string;
+import fs from "fs";
+import path from "path";
+import { BaseContract } from "ethers";
+import { ethers, network } from "hardhat";
+import {
+  DeploymentManifest,
+  DEPLOYMENTS_DIR_NAME,
+} from "../client/lib/contracts/addresses";
+import {
+  FEED_DECIMALS,
+  feedAnswer,
+  LOCAL_TOKENS,
+  LocalTokenConfig,
+  poolAmount,
+} from "./localDefi";
+
+interface LocalToken extends LocalTokenConfig {
+  address: string;
+  feed: string;
+}
+
+const LOCAL_CHAIN_ID = 31337;
+
+// Copy of the client's token list with this deployment's tokens as the
+// local chain entries. Tags are taken from the mainnet token of the same
+// symbol, so risk-profile categories work locally too.
+function writeLocalTokenList(tokens: LocalToken[]): string {
+  const clientDir = path.join(__dirname, "..", "client");
+  const list = JSON.parse(
+    fs.readFileSync(path.join(clientDir, "data", "tokenlist.json"), "utf8")
+  );
+  const upstream: { chainId: number; symbol: string; tags?: string[] }[] =
+    list.tokens;
+
+  const localEntries = tokens.map((token) => ({
+    chainId: LOCAL_CHAIN_ID,
+    address: token.address,
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    tags: [
+      ...(upstream.find(
+        (entry) => entry.chainId === 1 && entry.symbol === token.symbol
+      )?.tags ?? []),
+      "local",
+    ],
+  }));
+
+  const target = path.join(clientDir, ".data", "tokenlist.localhost.json");
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(
+    target,
+    JSON.stringify(
+      {
+        ...list,
+        name: `${list.name} (localhost)`,
+        timestamp: new Date().toISOString(),
+        tokens: [
+          ...upstream.filter((entry) => entry.chainId !== LOCAL_CHAIN_ID),
+          ...localEntries,
+        ],
+      },
+      null,
+      2
+    )
+  );
+  return target;
+}
+
+// Name, deployed contract and ABI for a manifest entry
+type ManifestEntry = [string, BaseContract];
+
+async function writeDeploymentManifest(
+  entries: ManifestEntry[],
+  fields: Omit<DeploymentManifest, "contracts">
+): Promise<string> {
+  const contracts: DeploymentManifest["contracts"] = {};
+  for (const [name, contract] of entries) {
+    const address = await contract.getAddress();
+    contracts[name] = {
+      address,
+      abiHash: ethers.id(contract.interface.formatJson()),
+      codeHash: ethers.keccak256(await ethers.provider.getCode(address)),
+    };
+  }
+
+  const manifest: DeploymentManifest = { ...fields, contracts };
+  const target = path.join(
+    __dirname,
+    "..",
+    DEPLOYMENTS_DIR_NAME,
+    `${fields.network}.json`
+  );
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, JSON.stringify(manifest, null, 2) + "\n");
+  return target;
 }
 
 async function main() {
-  console.log("🚀 Starting deployment to localhost network...\n");
+  console.log(`🚀 Starting deployment to ${network.name} network...\n`);
 
   // Get the deployer account
   const [deployer] = await ethers.getSigners();
@@ -27,6 +114,8 @@ async function main() {
   const oceanToken = await OceanToken.deploy();
   await oceanToken.waitForDeployment();
   const oceanTokenAddress = await oceanToken.getAddress();
+  const firstBlock = (await oceanToken.deploymentTransaction()!.wait())!
+    .blockNumber;
   console.log("✅ OceanToken deployed to:", oceanTokenAddress);
   console.log(
     "🪙 Initial supply:",
@@ -56,33 +145,117 @@ async function main() {
   const simpleStrategyAddress = await simpleStrategy.getAddress();
   console.log("✅ SimpleStrategy deployed to:", simpleStrategyAddress, "\n");
 
-  // Step 4: Deploy AIBasketStrategy
-  // Note: For localhost, we'll use mock addresses for router and WETH
-  // In a real deployment, these would be actual DEX router and WETH addresses
-  const mockRouter = "0x0000000000000000000000000000000000000001"; // Mock router for localhost
-  const mockWETH = "0x0000000000000000000000000000000000000002"; // Mock WETH for localhost
+  // Step 4: Stand up a local DeFi environment for the basket strategy: basket
+  // tokens, WETH, a constant-product router and settable price feeds
+  console.log("🧪 Deploying local DeFi mocks...");
+  const MockWETH = await ethers.getContractFactory("MockWETH");
+  const weth = await MockWETH.deploy();
+  await weth.waitForDeployment();
+  const wethAddress = await weth.getAddress();
+  console.log("✅ MockWETH deployed to:", wethAddress);
+
+  const MockRouter = await ethers.getContractFactory("MockRouter");
+  const router = await MockRouter.deploy();
+  await router.waitForDeployment();
+  const routerAddress = await router.getAddress();
+  console.log("✅ MockRouter deployed to:", routerAddress);
+
+  const MockERC20 = await ethers.getContractFactory("MockERC20");
+  const MockV3Aggregator = await ethers.getContractFactory("MockV3Aggregator");
+  const localTokens: LocalToken[] = [];
+  for (const config of LOCAL_TOKENS) {
+    let address: string;
+    if (config.symbol === "OCT") {
+      address = oceanTokenAddress;
+    } else if (config.symbol === "WETH") {
+      address = wethAddress;
+    } else {
+      const token = await MockERC20.deploy(
+        config.name,
+        config.symbol,
+        config.decimals
+      );
+      await token.waitForDeployment();
+      address = await token.getAddress();
+    }
+
+    const feed = await MockV3Aggregator.deploy(
+      FEED_DECIMALS,
+      feedAnswer(config.price)
+    );
+    await feed.waitForDeployment();
+    const feedAddress = await feed.getAddress();
 
+    localTokens.push({ ...config, address, feed: feedAddress });
+    console.log(
+      `✅ ${config.symbol.padEnd(5)} ${address}  feed ${feedAddress} ($${config.price})`
+    );
+  }
+  console.log("");
+
+  // Step 5: Deploy AIBasketStrategy against the mock router and WETH
   console.log("🧺 Deploying AIBasketStrategy...");
-  console.log("⚠️  Using mock addresses for router and WETH (localhost only)");
   const BasketStrategy = await ethers.getContractFactory("AIBasketStrategy");
   const basketStrategy = await BasketStrategy.deploy(
     oceanTokenAddress,
     vaultAddress,
-    mockRouter,
-    mockWETH,
+    routerAddress,
+    wethAddress,
     deployer.address
   );
   await basketStrategy.waitForDeployment();
   const basketStrategyAddress = await basketStrategy.getAddress();
   console.log("✅ AIBasketStrategy deployed to:", basketStrategyAddress, "\n");
 
-  // Step 5: Set up vault manager (deployer as manager for localhost)
+  // Step 6: Allow every basket token and register its price feed. The base
+  // asset needs a feed too, since token values are priced against it.
+  console.log("🔐 Allowing basket tokens and setting price feeds...");
+  for (const token of localTokens) {
+    if (token.symbol !== "OCT") {
+      await (await basketStrategy.allowToken(token.address)).wait();
+    }
+    await (await basketStrategy.setPriceFeed(token.address, token.feed)).wait();
+  }
+  console.log(`✅ ${localTokens.length} tokens allowed with price feeds\n`);
+
+  // Step 7: Seed a TOKEN/WETH pool per token at the feed prices, so swaps
+  // through WETH fill close to what the strategy expects
+  console.log("💧 Seeding router liquidity...");
+  const poolTokens = localTokens.filter((token) => token.symbol !== "WETH");
+  const wethPerPool = poolAmount(
+    localTokens.find((token) => token.symbol === "WETH")!
+  );
+  await (
+    await weth.deposit({ value: wethPerPool * BigInt(poolTokens.length) })
+  ).wait();
+  await (
+    await weth.approve(routerAddress, wethPerPool * BigInt(poolTokens.length))
+  ).wait();
+
+  for (const token of poolTokens) {
+    const amount = poolAmount(token);
+    if (token.symbol !== "OCT") {
+      const mock = await ethers.getContractAt("MockERC20", token.address);
+      await (await mock.mint(deployer.address, amount)).wait();
+    }
+    const erc20 = await ethers.getContractAt("IERC20", token.address);
+    await (await erc20.approve(routerAddress, amount)).wait();
+    await (
+      await router.addLiquidity(token.address, wethAddress, amount, wethPerPool)
+    ).wait();
+    console.log(
+      `✅ ${token.symbol}/WETH: ${ethers.formatUnits(amount, token.decimals)} ${token.symbol} + ${ethers.formatEther(wethPerPool)} WETH`
+    );
+  }
+  console.log("");
+
+  // Step 8: Set up vault manager (deployer as manager for localhost)
   console.log("👤 Setting up Vault manager...");
   const setManagerTx = await vault.setManager(deployer.address);
   await setManagerTx.wait();
   console.log("✅ Vault manager set to:", deployer.address, "\n");
 
-  // Step 6: Set SimpleStrategy as default strategy (vault needs to be paused first)
+  // Step 9: Set SimpleStrategy as default strategy (vault needs to be paused first)
   console.log("⏸️  Pausing vault to set strategy...");
   const pauseTx = await vault.pause();
   await pauseTx.wait();
@@ -98,12 +271,12 @@ async function main() {
   await unpauseTx.wait();
   console.log("✅ Vault unpaused\n");
 
-  // Step 7: Transfer some tokens to the vault for testing
+  // Step 10: Transfer some tokens to the vault for testing
   console.log("💸 Transferring test tokens to deployer for testing...");
   const testAmount = ethers.parseEther("100000"); // 100,000 OCT
   console.log("🎁 Deployer already has initial OCT supply from deployment\n");
 
-  // Step 8: Approve vault to spend tokens (for testing deposits)
+  // Step 11: Approve vault to spend tokens (for testing deposits)
   console.log("✅ Approving vault to spend OCT tokens...");
   const approveTx = await oceanToken.approve(
     vaultAddress,
@@ -112,18 +285,33 @@ async function main() {
   await approveTx.wait();
   console.log("✅ Approved 50,000 OCT for vault spending\n");
 
-  // Step 9: Display deployment summary
+  // Step 12: Register the local tokens with the client so AI allocations
+  // resolve to their addresses
+  const tokenListPath = writeLocalTokenList(localTokens);
+  console.log("🗂️  Client token list written to:", tokenListPath, "\n");
+
+  // Step 13: Display deployment summary
   console.log("📋 DEPLOYMENT SUMMARY");
   console.log("═".repeat(50));
   console.log("🌊 OceanToken (OCT):", oceanTokenAddress);
   console.log("🏦 Vault (vOCT):", vaultAddress);
   console.log("📈 SimpleStrategy:", simpleStrategyAddress);
   console.log("🧺 AIBasketStrategy:", basketStrategyAddress);
+  console.log("🔄 MockRouter:", routerAddress);
+  console.log("💎 MockWETH:", wethAddress);
   console.log("👤 Deployer/Owner/Manager:", deployer.address);
-  console.log("🌐 Network: localhost");
+  console.log("🌐 Network:", network.name);
   console.log("═".repeat(50), "\n");
 
-  // Step 10: Display testing instructions
+  // Contract addresses reach the client through the deployment manifest;
+  // only the chain and token list need configuring
+  console.log("🔧 CLIENT ENVIRONMENT (client/.env.local)");
+  console.log("═".repeat(50));
+  console.log(`CHAIN_ID=${LOCAL_CHAIN_ID}`);
+  console.log(`TOKEN_LIST_PATH=${tokenListPath}`);
+  console.log("═".repeat(50), "\n");
+
+  // Step 14: Display testing instructions
   console.log("🧪 TESTING INSTRUCTIONS");
   console.log("═".repeat(50));
   console.log("1. Deposit OCT tokens to vault:");
@@ -139,24 +327,42 @@ async function main() {
   console.log("   - vault.pause()");
   console.log(`   - vault.setStrategy("${basketStrategyAddress}")`);
   console.log("   - vault.unpause()");
+  console.log("");
+  console.log("5. Apply AI allocations and move prices:");
+  console.log("   basketStrategy.setAllocations([{ token, percentage }])");
+  console.log("   MockV3Aggregator(feed).updateAnswer(newPrice)");
   console.log("═".repeat(50), "\n");
 
-  // Step 11: Save deployment info for client/scripts
-  const deploymentInfo: DeploymentInfo = {
-    oceanTokenAddress,
-    vaultAddress,
-    simpleStrategyAddress,
-    basketStrategyAddress,
-    deployer: deployer.address,
-    network: "localhost",
-  };
+  // Step 15: Write the deployment manifest the client resolves addresses from
+  const manifestPath = await writeDeploymentManifest(
+    [
+      ["vault", vault],
+      ["basketStrategy", basketStrategy],
+      ["simpleStrategy", simpleStrategy],
+      ["oceanToken", oceanToken],
+      ["router", router],
+      ["weth", weth],
+    ],
+    {
+      network: network.name,
+      chainId: Number((await ethers.provider.getNetwork()).chainId),
+      blockNumber: firstBlock,
+      deployer: deployer.address,
+      deployedAt: new Date().toISOString(),
+      tokens: localTokens.map((token) => ({
+        symbol: token.symbol,
+        address: token.address,
+        decimals: token.decimals,
+        priceFeed: token.feed,
+      })),
+    }
+  );
+  console.log("🗂️  Deployment manifest written to:", manifestPath, "\n");
 
   console.log("✨ Deployment completed successfully!");
   console.log(
-    "🎯 All contracts are ready for interaction on localhost network"
+    `🎯 All contracts are ready for interaction on ${network.name} network`
   );
-
-  return deploymentInfo;
 }
 
 // Error handling
@@ -0,0 +1,45 @@
+import { parseUnits } from "ethers";
+
+// The mock DeFi environment stood up on local networks, shared by
+// scripts/deploy.ts and the LocalDeFi Ignition module
+
+export interface LocalTokenConfig {
+  symbol: string;
+  name: string;
+  decimals: number;
+  price: string; // USD, as published by the token's mock feed
+}
+
+// Basket tokens of the local environment. OCT is the vault asset and WETH
+// the MockWETH; every other token is deployed as a MockERC20.
+export const LOCAL_TOKENS: LocalTokenConfig[] = [
+  { symbol: "OCT", name: "Ocean Token", decimals: 18, price: "1" },
+  { symbol: "WETH", name: "Wrapped Ether", decimals: 18, price: "3000" },
+  { symbol: "USDC", name: "USD Coin", decimals: 6, price: "1" },
+  { symbol: "USDT", name: "Tether USD", decimals: 6, price: "1" },
+  { symbol: "DAI", name: "Dai Stablecoin", decimals: 18, price: "1" },
+  { symbol: "WBTC", name: "Wrapped BTC", decimals: 8, price: "60000" },
+  { symbol: "LINK", name: "ChainLink Token", decimals: 18, price: "15" },
+  { symbol: "UNI", name: "Uniswap", decimals: 18, price: "8" },
+  { symbol: "AAVE", name: "Aave Token", decimals: 18, price: "100" },
+];
+
+// Chainlink USD feeds use 8 decimals; the strategy requires all feeds to match
+export const FEED_DECIMALS = 8;
+
+// USD value of each side of every router pool. Every basket swap routes
+// through OCT/WETH, which takes half of the deployer's OCT supply.
+const POOL_LIQUIDITY_USD = 500_000n;
+
+// Feed answer for a USD price
+export function feedAnswer(price: string): bigint {
+  return parseUnits(price, FEED_DECIMALS);
+}
+
+// Amount of `token` worth POOL_LIQUIDITY_USD at its feed price
+export function poolAmount(token: LocalTokenConfig): bigint {
+  return (
+    (POOL_LIQUIDITY_USD * 10n ** BigInt(token.decimals + FEED_DECIMALS)) /
+    feedAnswer(token.price)
+  );
+}
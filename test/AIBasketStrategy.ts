@@ -0,0 +1,379 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { feedAnswer, LOCAL_TOKENS } from "../scripts/localDefi";
+import { deployBasketFixture } from "./fixtures";
+
+const { parseEther } = hre.ethers;
+
+const DEPOSIT = parseEther("10000");
+
+// Fixed 40% WETH, 35% WBTC, 25% USDC basket used throughout
+const BASKET: [string, number][] = [
+  ["WETH", 4000],
+  ["WBTC", 3500],
+  ["USDC", 2500],
+];
+
+type BasketFixture = Awaited<ReturnType<typeof deployBasketFixture>>;
+
+function allocations(tokens: BasketFixture["tokens"], basket = BASKET) {
+  return basket.map(([symbol, percentage]) => ({
+    token: tokens[symbol],
+    percentage,
+  }));
+}
+
+// OCT value of `amount` of `symbol` at the fixture's feed prices
+function octValue(symbol: string, amount: bigint): bigint {
+  const config = LOCAL_TOKENS.find((token) => token.symbol === symbol)!;
+  return (
+    (amount * feedAnswer(config.price) * 10n ** BigInt(18 - config.decimals)) /
+    feedAnswer("1")
+  );
+}
+
+async function positionValue(fixture: BasketFixture, symbol: string) {
+  const balance = await fixture.basketStrategy.getTokenBalance(
+    fixture.tokens[symbol]
+  );
+  return octValue(symbol, balance);
+}
+
+// Alice's deposit, invested in the strategy, before any allocations
+async function fundedBasketFixture() {
+  const fixture = await deployBasketFixture();
+  await fixture.vault
+    .connect(fixture.alice)
+    .deposit(DEPOSIT, fixture.alice.address);
+  await fixture.vault.manualInvest(DEPOSIT);
+  return fixture;
+}
+
+async function allocatedBasketFixture() {
+  const fixture = await fundedBasketFixture();
+  await fixture.basketStrategy.setAllocations(allocations(fixture.tokens));
+  return fixture;
+}
+
+describe("AIBasketStrategy", function () {
+  describe("setAllocations validation", function () {
+    it("Should store allocations for allowed tokens with feeds", async function () {
+      const { basketStrategy, tokens } = await loadFixture(deployBasketFixture);
+
+      await expect(basketStrategy.setAllocations(allocations(tokens)))
+        .to.emit(basketStrategy, "AllocationUpdated")
+        .withArgs(tokens.WETH, 4000)
+        .and.to.emit(basketStrategy, "AIRebalance")
+        .withArgs(0, 3);
+
+      const stored = await basketStrategy.getAllocations();
+      expect(stored.map((a) => [a.token, a.percentage])).to.deep.equal(
+        allocations(tokens).map((a) => [a.token, BigInt(a.percentage)])
+      );
+    });
+
+    it("Should reject invalid allocations", async function () {
+      const { basketStrategy, tokens, weth } =
+        await loadFixture(deployBasketFixture);
+      const unlisted = await hre.ethers.deployContract("MockERC20", [
+        "Unlisted",
+        "NOPE",
+        18,
+      ]);
+      const noFeed = await hre.ethers.deployContract("MockERC20", [
+        "No Feed",
+        "NOFEED",
+        18,
+      ]);
+      await basketStrategy.allowToken(noFeed);
+
+      const cases: [{ token: string; percentage: number }[], string][] = [
+        [
+          [{ token: hre.ethers.ZeroAddress, percentage: 100 }],
+          "AIBasketStrategy: zero token",
+        ],
+        [
+          [{ token: await unlisted.getAddress(), percentage: 100 }],
+          "AIBasketStrategy: token not allowed",
+        ],
+        [
+          [{ token: tokens.WETH, percentage: 0 }],
+          "AIBasketStrategy: zero percentage",
+        ],
+        [
+          [{ token: await noFeed.getAddress(), percentage: 100 }],
+          "AIBasketStrategy: no price feed",
+        ],
+        [
+          [
+            { token: tokens.WETH, percentage: 6000 },
+            { token: tokens.WBTC, percentage: 4001 },
+          ],
+          "AIBasketStrategy: total percentage exceeds 100%",
+        ],
+        [
+          Array.from({ length: 11 }, () => ({
+            token: tokens.USDC,
+            percentage: 100,
+          })),
+          "AIBasketStrategy: too many allocations",
+        ],
+      ];
+      for (const [input, reason] of cases) {
+        await expect(basketStrategy.setAllocations(input)).to.be.revertedWith(
+          reason
+        );
+      }
+
+      // A token loses its listing
+      await basketStrategy.disallowToken(weth);
+      await expect(
+        basketStrategy.setAllocations(allocations(tokens))
+      ).to.be.revertedWith("AIBasketStrategy: token not allowed");
+    });
+
+    it("Should only let the owner manage allocations, tokens and feeds", async function () {
+      const { basketStrategy, tokens, feeds, alice } =
+        await loadFixture(deployBasketFixture);
+      const asAlice = basketStrategy.connect(alice);
+
+      for (const call of [
+        () => asAlice.setAllocations(allocations(tokens)),
+        () => asAlice.allowToken(tokens.LINK),
+        () => asAlice.disallowToken(tokens.LINK),
+        () => asAlice.setPriceFeed(tokens.LINK, feeds.LINK),
+        () => asAlice.setRouter(alice.address),
+        () => asAlice.emergencyExitAllPositions(),
+      ]) {
+        await expect(call()).to.be.revertedWithCustomError(
+          basketStrategy,
+          "OwnableUnauthorizedAccount"
+        );
+      }
+      await expect(basketStrategy.disallowToken(tokens.OCT)).to.be.revertedWith(
+        "AIBasketStrategy: cannot disallow base asset"
+      );
+    });
+  });
+
+  describe("Rebalancing", function () {
+    it("Should hold the base asset until allocations are set", async function () {
+      const fixture = await loadFixture(fundedBasketFixture);
+
+      expect(await fixture.basketStrategy.totalAssets()).to.equal(DEPOSIT);
+      expect(await fixture.vault.totalAssets()).to.equal(DEPOSIT);
+    });
+
+    it("Should buy each token up to its target weight", async function () {
+      const fixture = await loadFixture(allocatedBasketFixture);
+      const total = await fixture.basketStrategy.totalAssets();
+
+      // Swaps route through WETH and pay 0.3% per hop plus price impact
+      expect(total).to.be.within((DEPOSIT * 97n) / 100n, DEPOSIT);
+      for (const [symbol, percentage] of BASKET) {
+        const target = (total * BigInt(percentage)) / 10000n;
+        expect(await positionValue(fixture, symbol)).to.be.closeTo(
+          target,
+          total / 50n
+        );
+      }
+      expect(
+        await fixture.basketStrategy.getTokenBalance(fixture.tokens.OCT)
+      ).to.be.lessThan(total / 100n);
+    });
+
+    it("Should keep the unallocated share in the base asset", async function () {
+      const fixture = await loadFixture(fundedBasketFixture);
+
+      await fixture.basketStrategy.setAllocations(
+        allocations(fixture.tokens, [["WETH", 5000]])
+      );
+      const cash = await fixture.basketStrategy.getTokenBalance(
+        fixture.tokens.OCT
+      );
+      expect(cash).to.be.closeTo(DEPOSIT / 2n, DEPOSIT / 100n);
+    });
+
+    it("Should value positions with the price feeds", async function () {
+      const fixture = await loadFixture(allocatedBasketFixture);
+      const before = await fixture.basketStrategy.totalAssets();
+      const wethValue = await positionValue(fixture, "WETH");
+
+      // WETH doubles
+      await fixture.feeds.WETH.updateAnswer(feedAnswer("6000"));
+      expect(await fixture.basketStrategy.totalAssets()).to.equal(
+        before + wethValue
+      );
+      expect(await fixture.vault.totalAssets()).to.equal(before + wethValue);
+    });
+
+    it("Should sell overweight positions when new funds are invested", async function () {
+      const fixture = await loadFixture(allocatedBasketFixture);
+      const { basketStrategy, tokens, feeds, vault, bob } = fixture;
+
+      await feeds.WETH.updateAnswer(feedAnswer("6000"));
+      const wethBefore = await basketStrategy.getTokenBalance(tokens.WETH);
+
+      await vault.connect(bob).deposit(parseEther("1000"), bob.address);
+      await vault.manualInvest(parseEther("1000"));
+
+      expect(await basketStrategy.getTokenBalance(tokens.WETH)).to.be.lessThan(
+        wethBefore
+      );
+    });
+
+    it("Should leave positions within the 1% threshold alone", async function () {
+      const fixture = await loadFixture(allocatedBasketFixture);
+      const { basketStrategy, tokens, vault, bob } = fixture;
+      const weth = await basketStrategy.getTokenBalance(tokens.WETH);
+
+      // A 0.1% top-up keeps WETH within 1% of total value of its target
+      await vault.connect(bob).deposit(parseEther("10"), bob.address);
+      await vault.manualInvest(parseEther("10"));
+
+      expect(await basketStrategy.getTokenBalance(tokens.WETH)).to.equal(weth);
+    });
+
+    it("Should skip swaps the router cannot quote", async function () {
+      const fixture = await loadFixture(fundedBasketFixture);
+      const { basketStrategy, tokens } = fixture;
+
+      // LINK is allowed and has a feed, but no pool
+      await basketStrategy.setAllocations(
+        allocations(tokens, [
+          ["LINK", 5000],
+          ["WETH", 5000],
+        ])
+      );
+      expect(await basketStrategy.getTokenBalance(tokens.LINK)).to.equal(0);
+      expect(
+        await basketStrategy.getTokenBalance(tokens.WETH)
+      ).to.be.greaterThan(0);
+    });
+  });
+
+  describe("freeFunds", function () {
+    it("Should only be callable by the vault", async function () {
+      const { basketStrategy, owner } = await loadFixture(deployBasketFixture);
+
+      await expect(
+        basketStrategy.connect(owner).freeFunds(1)
+      ).to.be.revertedWith("AIBasketStrategy: only vault");
+      await expect(basketStrategy.connect(owner).invest(1)).to.be.revertedWith(
+        "AIBasketStrategy: only vault"
+      );
+    });
+
+    it("Should pay from idle base asset first", async function () {
+      const fixture = await loadFixture(fundedBasketFixture);
+      const { basketStrategy, tokens, vault, oceanToken } = fixture;
+
+      await basketStrategy.setAllocations(
+        allocations(tokens, [["WETH", 5000]])
+      );
+      const wethBefore = await basketStrategy.getTokenBalance(tokens.WETH);
+
+      await expect(vault.manualFree(parseEther("1000"))).to.changeTokenBalance(
+        oceanToken,
+        vault,
+        parseEther("1000")
+      );
+      expect(await basketStrategy.getTokenBalance(tokens.WETH)).to.equal(
+        wethBefore
+      );
+    });
+
+    it("Should liquidate positions proportionally to cover a shortfall", async function () {
+      const fixture = await loadFixture(allocatedBasketFixture);
+      const { basketStrategy, tokens, vault, oceanToken } = fixture;
+      const before = await Promise.all(
+        BASKET.map(([symbol]) => basketStrategy.getTokenBalance(tokens[symbol]))
+      );
+
+      const vaultBefore = await oceanToken.balanceOf(vault);
+      await expect(vault.manualFree(parseEther("5000"))).to.emit(
+        basketStrategy,
+        "Freed"
+      );
+      const freed = (await oceanToken.balanceOf(vault)) - vaultBefore;
+
+      // Swap costs mean slightly less than requested comes back
+      expect(freed).to.be.within(parseEther("4850"), parseEther("5000"));
+      for (const [index, [symbol]] of BASKET.entries()) {
+        const after = await basketStrategy.getTokenBalance(tokens[symbol]);
+        expect(after).to.be.closeTo(before[index] / 2n, before[index] / 20n);
+      }
+    });
+
+    it("Should fail withdrawals that liquidation cannot fully cover", async function () {
+      const fixture = await loadFixture(allocatedBasketFixture);
+      const { vault, oceanToken, feeds, alice } = fixture;
+
+      // The WETH feed doubles but the pool does not follow, so WETH sold at
+      // the feed's valuation returns half of what the vault asked for, and
+      // the vault does not accept a partial withdrawal
+      await feeds.WETH.updateAnswer(feedAnswer("6000"));
+      await expect(
+        vault
+          .connect(alice)
+          .withdraw(parseEther("5000"), alice.address, alice.address)
+      ).to.be.revertedWithCustomError(oceanToken, "ERC20InsufficientBalance");
+    });
+
+    it("Should serve withdrawals from freed funds", async function () {
+      const fixture = await loadFixture(allocatedBasketFixture);
+      const { vault, oceanToken, alice } = fixture;
+
+      await vault.manualFree(parseEther("5000"));
+      const shares = await vault.previewWithdraw(parseEther("4000"));
+      await expect(
+        vault
+          .connect(alice)
+          .withdraw(parseEther("4000"), alice.address, alice.address)
+      ).to.changeTokenBalance(oceanToken, alice, parseEther("4000"));
+      expect(await vault.balanceOf(alice.address)).to.equal(DEPOSIT - shares);
+    });
+  });
+
+  describe("Emergency exits", function () {
+    it("Should sell every position back to the base asset", async function () {
+      const fixture = await loadFixture(allocatedBasketFixture);
+      const { basketStrategy, tokens } = fixture;
+      const total = await basketStrategy.totalAssets();
+      const weth = await basketStrategy.getTokenBalance(tokens.WETH);
+
+      await expect(basketStrategy.emergencyExitAllPositions())
+        .to.emit(basketStrategy, "EmergencyExit")
+        .withArgs(tokens.WETH, weth);
+
+      for (const [symbol] of BASKET) {
+        expect(await basketStrategy.getTokenBalance(tokens[symbol])).to.equal(
+          0
+        );
+      }
+      expect(await basketStrategy.getAllocationsCount()).to.equal(0);
+      const cash = await basketStrategy.getTokenBalance(tokens.OCT);
+      expect(await basketStrategy.totalAssets()).to.equal(cash);
+      // Our buys moved the pools above the feed prices the positions are
+      // valued at, so selling back can return slightly more
+      expect(cash).to.be.closeTo(total, total / 50n);
+    });
+
+    it("Should send a token's whole balance to the owner", async function () {
+      const fixture = await loadFixture(allocatedBasketFixture);
+      const { basketStrategy, tokens, weth, owner } = fixture;
+      const balance = await basketStrategy.getTokenBalance(tokens.WETH);
+
+      const tx = basketStrategy.emergencyWithdraw(weth);
+      await expect(tx)
+        .to.emit(basketStrategy, "EmergencyExit")
+        .withArgs(tokens.WETH, balance);
+      await expect(tx).to.changeTokenBalances(
+        weth,
+        [basketStrategy, owner],
+        [-balance, balance]
+      );
+    });
+  });
+});
@@ -0,0 +1,372 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  deployVaultFixture,
+  deployVaultWithMockStrategyFixture,
+  setStrategy,
+} from "./fixtures";
+
+const { parseEther } = hre.ethers;
+
+describe("Vault", function () {
+  describe("Deployment", function () {
+    it("Should use OCT as the asset and the deployer as owner", async function () {
+      const { vault, oceanToken, owner, manager } =
+        await loadFixture(deployVaultFixture);
+
+      expect(await vault.asset()).to.equal(await oceanToken.getAddress());
+      expect(await vault.owner()).to.equal(owner.address);
+      expect(await vault.manager()).to.equal(manager.address);
+      expect(await vault.strategy()).to.equal(hre.ethers.ZeroAddress);
+    });
+  });
+
+  describe("Deposits", function () {
+    it("Should mint shares 1:1 for the first deposit", async function () {
+      const { vault, oceanToken, alice } =
+        await loadFixture(deployVaultFixture);
+
+      await expect(
+        vault.connect(alice).deposit(parseEther("1000"), alice.address)
+      ).to.changeTokenBalances(
+        oceanToken,
+        [alice, vault],
+        [parseEther("-1000"), parseEther("1000")]
+      );
+      expect(await vault.balanceOf(alice.address)).to.equal(parseEther("1000"));
+      expect(await vault.totalAssets()).to.equal(parseEther("1000"));
+    });
+
+    it("Should price later deposits off total assets including the strategy", async function () {
+      const { vault, oceanToken, mockStrategy, owner, alice, bob } =
+        await loadFixture(deployVaultWithMockStrategyFixture);
+
+      await vault.connect(alice).deposit(parseEther("1000"), alice.address);
+      await vault.manualInvest(parseEther("1000"));
+      // The strategy earns 10%
+      await oceanToken.connect(owner).transfer(mockStrategy, parseEther("100"));
+
+      expect(await vault.totalAssets()).to.equal(parseEther("1100"));
+      const shares = await vault.previewDeposit(parseEther("1100"));
+      await vault.connect(bob).deposit(parseEther("1100"), bob.address);
+      expect(await vault.balanceOf(bob.address)).to.equal(shares);
+      expect(shares).to.be.closeTo(parseEther("1000"), 1n);
+    });
+
+    it("Should mint exact shares", async function () {
+      const { vault, alice } = await loadFixture(deployVaultFixture);
+
+      await vault.connect(alice).mint(parseEther("500"), alice.address);
+      expect(await vault.balanceOf(alice.address)).to.equal(parseEther("500"));
+    });
+
+    it("Should deposit the caller's whole balance with depositAll", async function () {
+      const { vault, oceanToken, alice } =
+        await loadFixture(deployVaultFixture);
+      const balance = await oceanToken.balanceOf(alice.address);
+
+      await vault.connect(alice).depositAll();
+      expect(await vault.balanceOf(alice.address)).to.equal(balance);
+      expect(await oceanToken.balanceOf(alice.address)).to.equal(0);
+    });
+  });
+
+  describe("Withdrawals", function () {
+    it("Should withdraw from idle assets without touching the strategy", async function () {
+      const { vault, oceanToken, mockStrategy, alice } = await loadFixture(
+        deployVaultWithMockStrategyFixture
+      );
+
+      await vault.connect(alice).deposit(parseEther("1000"), alice.address);
+      await vault.manualInvest(parseEther("400"));
+
+      await expect(
+        vault
+          .connect(alice)
+          .withdraw(parseEther("600"), alice.address, alice.address)
+      ).to.changeTokenBalances(
+        oceanToken,
+        [alice, vault, mockStrategy],
+        [parseEther("600"), parseEther("-600"), 0]
+      );
+    });
+
+    it("Should pull the shortfall from the strategy", async function () {
+      const { vault, oceanToken, mockStrategy, alice } = await loadFixture(
+        deployVaultWithMockStrategyFixture
+      );
+
+      await vault.connect(alice).deposit(parseEther("1000"), alice.address);
+      await vault.manualInvest(parseEther("800"));
+
+      await expect(
+        vault
+          .connect(alice)
+          .withdraw(parseEther("500"), alice.address, alice.address)
+      )
+        .to.emit(mockStrategy, "Freed")
+        .withArgs(await vault.getAddress(), parseEther("300"));
+      expect(await oceanToken.balanceOf(vault)).to.equal(0);
+      expect(await mockStrategy.totalAssets()).to.equal(parseEther("500"));
+    });
+
+    it("Should redeem shares, freeing what the vault lacks", async function () {
+      const { vault, oceanToken, mockStrategy, alice } = await loadFixture(
+        deployVaultWithMockStrategyFixture
+      );
+
+      await vault.connect(alice).deposit(parseEther("1000"), alice.address);
+      await vault.manualInvest(parseEther("1000"));
+
+      await expect(
+        vault
+          .connect(alice)
+          .redeem(parseEther("1000"), alice.address, alice.address)
+      ).to.changeTokenBalances(
+        oceanToken,
+        [alice, mockStrategy],
+        [parseEther("1000"), parseEther("-1000")]
+      );
+      expect(await vault.totalSupply()).to.equal(0);
+    });
+
+    it("Should revert when the strategy cannot cover the shortfall", async function () {
+      const { vault, oceanToken, mockStrategy, alice } = await loadFixture(
+        deployVaultWithMockStrategyFixture
+      );
+
+      await vault.connect(alice).deposit(parseEther("1000"), alice.address);
+      await vault.manualInvest(parseEther("1000"));
+      await mockStrategy.setLockedAssets(parseEther("700"));
+
+      await expect(
+        vault
+          .connect(alice)
+          .withdraw(parseEther("500"), alice.address, alice.address)
+      ).to.be.revertedWithCustomError(oceanToken, "ERC20InsufficientBalance");
+      await expect(
+        vault
+          .connect(alice)
+          .redeem(parseEther("500"), alice.address, alice.address)
+      ).to.be.revertedWithCustomError(oceanToken, "ERC20InsufficientBalance");
+
+      // What the strategy can free is still withdrawable
+      await vault
+        .connect(alice)
+        .withdraw(parseEther("300"), alice.address, alice.address);
+      expect(await vault.balanceOf(alice.address)).to.equal(parseEther("700"));
+    });
+
+    it("Should revert a shortfall when there is no strategy", async function () {
+      const { vault, oceanToken, owner, alice } =
+        await loadFixture(deployVaultFixture);
+
+      await vault.connect(alice).deposit(parseEther("1000"), alice.address);
+      // Idle assets leave the vault without going through a strategy
+      await vault.emergencyWithdrawAll();
+      await oceanToken.connect(owner).transfer(vault, parseEther("100"));
+
+      await expect(
+        vault
+          .connect(alice)
+          .withdraw(parseEther("50"), alice.address, alice.address)
+      ).to.not.be.reverted;
+      await expect(
+        vault
+          .connect(alice)
+          .withdraw(parseEther("60"), alice.address, alice.address)
+      ).to.be.revertedWith("Vault: no strategy");
+    });
+
+    it("Should share strategy losses pro rata", async function () {
+      const { vault, oceanToken, mockStrategy, alice, bob } = await loadFixture(
+        deployVaultWithMockStrategyFixture
+      );
+
+      await vault.connect(alice).deposit(parseEther("1000"), alice.address);
+      await vault.connect(bob).deposit(parseEther("1000"), bob.address);
+      await vault.manualInvest(parseEther("2000"));
+      await mockStrategy.simulateLoss(parseEther("500"));
+
+      const before = await oceanToken.balanceOf(alice.address);
+      await vault
+        .connect(alice)
+        .redeem(parseEther("1000"), alice.address, alice.address);
+      expect((await oceanToken.balanceOf(alice.address)) - before).to.equal(
+        parseEther("750")
+      );
+    });
+
+    it("Should not let a user withdraw more than their shares are worth", async function () {
+      const { vault, alice, bob } = await loadFixture(
+        deployVaultWithMockStrategyFixture
+      );
+
+      await vault.connect(alice).deposit(parseEther("1000"), alice.address);
+      await vault.connect(bob).deposit(parseEther("1000"), bob.address);
+
+      await expect(
+        vault
+          .connect(alice)
+          .withdraw(parseEther("1001"), alice.address, alice.address)
+      ).to.be.revertedWithCustomError(vault, "ERC4626ExceededMaxWithdraw");
+      await expect(
+        vault
+          .connect(bob)
+          .withdraw(parseEther("100"), bob.address, alice.address)
+      ).to.be.revertedWithCustomError(vault, "ERC20InsufficientAllowance");
+    });
+  });
+
+  describe("Manager functions", function () {
+    it("Should let the manager and owner invest and free funds", async function () {
+      const { vault, oceanToken, mockStrategy, owner, manager, alice } =
+        await loadFixture(deployVaultWithMockStrategyFixture);
+
+      await vault.connect(alice).deposit(parseEther("1000"), alice.address);
+
+      await expect(vault.connect(manager).manualInvest(parseEther("600")))
+        .to.emit(vault, "StrategyInvest")
+        .withArgs(manager.address, parseEther("600"))
+        .and.to.emit(mockStrategy, "Invested");
+      expect(await oceanToken.balanceOf(mockStrategy)).to.equal(
+        parseEther("600")
+      );
+
+      await expect(vault.connect(owner).manualFree(parseEther("200")))
+        .to.emit(vault, "StrategyFreed")
+        .withArgs(owner.address, parseEther("200"));
+      expect(await oceanToken.balanceOf(vault)).to.equal(parseEther("600"));
+      expect(await vault.totalAssets()).to.equal(parseEther("1000"));
+    });
+
+    it("Should reject other callers, zero amounts and a missing strategy", async function () {
+      const { vault, alice } = await loadFixture(deployVaultFixture);
+
+      await vault.connect(alice).deposit(parseEther("1000"), alice.address);
+
+      await expect(
+        vault.connect(alice).manualInvest(parseEther("1"))
+      ).to.be.revertedWith("Vault: not manager/owner");
+      await expect(
+        vault.connect(alice).manualFree(parseEther("1"))
+      ).to.be.revertedWith("Vault: not manager/owner");
+      await expect(vault.manualInvest(0)).to.be.revertedWith(
+        "Vault: zero amount"
+      );
+      await expect(vault.manualInvest(parseEther("1"))).to.be.revertedWith(
+        "Vault: no strategy"
+      );
+      await expect(vault.manualFree(parseEther("1"))).to.be.revertedWith(
+        "Vault: no strategy"
+      );
+    });
+
+    it("Should only let the owner change the manager", async function () {
+      const { vault, alice } = await loadFixture(deployVaultFixture);
+
+      await expect(vault.connect(alice).setManager(alice.address))
+        .to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount")
+        .withArgs(alice.address);
+      await expect(vault.setManager(alice.address)).to.emit(
+        vault,
+        "ManagerUpdated"
+      );
+    });
+  });
+
+  describe("Pausing", function () {
+    it("Should only accept a new strategy while paused", async function () {
+      const { vault, simpleStrategy } = await loadFixture(deployVaultFixture);
+
+      await expect(
+        vault.setStrategy(simpleStrategy)
+      ).to.be.revertedWithCustomError(vault, "ExpectedPause");
+
+      await vault.pause();
+      await expect(vault.setStrategy(simpleStrategy))
+        .to.emit(vault, "StrategyUpdated")
+        .withArgs(hre.ethers.ZeroAddress, await simpleStrategy.getAddress());
+      await vault.unpause();
+
+      expect(await vault.strategy()).to.equal(
+        await simpleStrategy.getAddress()
+      );
+    });
+
+    it("Should only let the owner pause, unpause and set the strategy", async function () {
+      const { vault, simpleStrategy, manager } =
+        await loadFixture(deployVaultFixture);
+
+      await expect(
+        vault.connect(manager).pause()
+      ).to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount");
+      await vault.pause();
+      await expect(
+        vault.connect(manager).setStrategy(simpleStrategy)
+      ).to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount");
+      await expect(
+        vault.connect(manager).unpause()
+      ).to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should block deposits, withdrawals and manager calls while paused", async function () {
+      const { vault, alice } = await loadFixture(
+        deployVaultWithMockStrategyFixture
+      );
+
+      await vault.connect(alice).deposit(parseEther("1000"), alice.address);
+      await vault.pause();
+
+      const calls = [
+        vault.connect(alice).deposit(parseEther("1"), alice.address),
+        vault.connect(alice).mint(parseEther("1"), alice.address),
+        vault
+          .connect(alice)
+          .withdraw(parseEther("1"), alice.address, alice.address),
+        vault
+          .connect(alice)
+          .redeem(parseEther("1"), alice.address, alice.address),
+        vault.manualInvest(parseEther("1")),
+        vault.manualFree(parseEther("1")),
+      ];
+      for (const call of calls) {
+        await expect(call).to.be.revertedWithCustomError(
+          vault,
+          "EnforcedPause"
+        );
+      }
+    });
+  });
+
+  describe("Emergency withdrawal", function () {
+    it("Should pull everything from the strategy and send it to the owner", async function () {
+      const { vault, oceanToken, simpleStrategy, owner, alice } =
+        await loadFixture(deployVaultFixture);
+      await setStrategy(vault, simpleStrategy);
+
+      await vault.connect(alice).deposit(parseEther("1000"), alice.address);
+      await vault.manualInvest(parseEther("700"));
+
+      const tx = vault.emergencyWithdrawAll();
+      await expect(tx)
+        .to.emit(vault, "EmergencyWithdraw")
+        .withArgs(owner.address, parseEther("1000"));
+      await expect(tx).to.changeTokenBalances(
+        oceanToken,
+        [owner, vault, simpleStrategy],
+        [parseEther("1000"), parseEther("-300"), parseEther("-700")]
+      );
+      expect(await vault.totalAssets()).to.equal(0);
+    });
+
+    it("Should only be callable by the owner", async function () {
+      const { vault, manager } = await loadFixture(deployVaultFixture);
+
+      await expect(
+        vault.connect(manager).emergencyWithdrawAll()
+      ).to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount");
+    });
+  });
+});
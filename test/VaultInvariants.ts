@@ -0,0 +1,386 @@
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { deployBasketFixture } from "./fixtures";
+import { checkProperty, pick, randomInt, type Random } from "./property";
+
+// Randomized sequences of user and manager actions against Vault +
+// AIBasketStrategy over the local mock DeFi environment. After every action:
+//
+// - totalAssets is the vault's idle balance plus strategy.totalAssets()
+// - shares are only held by the users and never claim more than totalAssets
+// - the share price does not fall unless total assets fell short of the net
+//   user flows, i.e. the strategy lost value (swap costs, a feed dropping)
+// - a withdrawal pays at most the post-withdrawal price for the shares it
+//   burns, and redeeming more shares than one holds, or someone else's,
+//   reverts
+//
+// Amounts are drawn as fractions of what is available when the action runs,
+// so any subsequence of a generated sequence is still a valid sequence.
+
+// Tokens with router pools, so the strategy can actually hold them
+const POOL_TOKENS = ["WETH", "WBTC", "USDC", "DAI", "UNI", "AAVE"] as const;
+type PoolToken = (typeof POOL_TOKENS)[number];
+
+type Action =
+  | {
+      kind: "deposit" | "mint" | "withdraw" | "redeem";
+      user: number;
+      bps: number;
+    }
+  | { kind: "overdraw"; user: number; via: "withdraw" | "redeem" | "allowance" }
+  | { kind: "invest" | "free"; bps: number }
+  | { kind: "price"; token: PoolToken; bps: number }
+  | { kind: "reallocate"; weights: [PoolToken, number][] };
+
+type Fixture = Awaited<ReturnType<typeof deployInvariantFixture>>;
+
+interface Snapshot {
+  totalAssets: bigint;
+  totalSupply: bigint;
+  idle: bigint;
+  strategyAssets: bigint;
+  shares: bigint[];
+  claims: bigint[];
+}
+
+// The reverts a well-behaved vault may answer an in-bounds withdrawal with:
+// liquidation returned less than the vault asked for
+const SHORTFALL_ERRORS = ["ERC20InsufficientBalance"];
+const OVERDRAW_ERRORS = [
+  "ERC4626ExceededMaxWithdraw",
+  "ERC4626ExceededMaxRedeem",
+  "ERC20InsufficientAllowance",
+];
+
+async function deployInvariantFixture() {
+  const fixture = await deployBasketFixture();
+  const { basketStrategy, tokens, alice, bob } = fixture;
+  await basketStrategy.setAllocations([
+    { token: tokens.WETH, percentage: 4000 },
+    { token: tokens.WBTC, percentage: 3500 },
+    { token: tokens.USDC, percentage: 2500 },
+  ]);
+  return { ...fixture, users: [alice, bob] };
+}
+
+function generate(random: Random): Action {
+  const user = randomInt(random, 0, 1);
+  const bps = randomInt(random, 1, 10000);
+  switch (
+    pick(random, [
+      "deposit",
+      "deposit",
+      "mint",
+      "withdraw",
+      "redeem",
+      "overdraw",
+      "invest",
+      "invest",
+      "free",
+      "price",
+      "price",
+      "reallocate",
+    ] as const)
+  ) {
+    case "deposit":
+      return { kind: "deposit", user, bps };
+    case "mint":
+      return { kind: "mint", user, bps };
+    case "withdraw":
+      return { kind: "withdraw", user, bps };
+    case "redeem":
+      return { kind: "redeem", user, bps };
+    case "overdraw":
+      return {
+        kind: "overdraw",
+        user,
+        via: pick(random, ["withdraw", "redeem", "allowance"] as const),
+      };
+    case "invest":
+      return { kind: "invest", bps };
+    case "free":
+      return { kind: "free", bps };
+    case "price":
+      return {
+        kind: "price",
+        token: pick(random, POOL_TOKENS),
+        bps: randomInt(random, -2000, 2000),
+      };
+    case "reallocate": {
+      const weights: [PoolToken, number][] = [];
+      let remaining = 10000;
+      for (const token of POOL_TOKENS) {
+        if (remaining === 0 || random() < 0.5) continue;
+        const weight = randomInt(random, 1, remaining);
+        weights.push([token, weight]);
+        remaining -= weight;
+      }
+      return { kind: "reallocate", weights };
+    }
+  }
+}
+
+function simplify(action: Action): Action[] {
+  switch (action.kind) {
+    case "overdraw":
+      return [];
+    case "reallocate":
+      return action.weights.map((_, index) => ({
+        ...action,
+        weights: action.weights.filter((__, other) => other !== index),
+      }));
+    case "price":
+      return action.bps === 0
+        ? []
+        : [{ ...action, bps: Math.trunc(action.bps / 2) }];
+    default:
+      return action.bps > 1
+        ? [{ ...action, bps: Math.ceil(action.bps / 2) }]
+        : [];
+  }
+}
+
+function format(action: Action): string {
+  switch (action.kind) {
+    case "overdraw":
+      return `overdraw user ${action.user} via ${action.via}`;
+    case "invest":
+    case "free":
+      return `${action.kind} ${action.bps} bps`;
+    case "price":
+      return `move ${action.token} feed ${action.bps} bps`;
+    case "reallocate":
+      return `reallocate ${action.weights.map(([token, bps]) => `${token}:${bps}`).join(" ") || "(none)"}`;
+    default:
+      return `${action.kind} ${action.bps} bps by user ${action.user}`;
+  }
+}
+
+function share(amount: bigint, bps: number): bigint {
+  return (amount * BigInt(bps)) / 10000n;
+}
+
+async function snapshot(fixture: Fixture): Promise<Snapshot> {
+  const { vault, oceanToken, basketStrategy, users } = fixture;
+  return {
+    totalAssets: await vault.totalAssets(),
+    totalSupply: await vault.totalSupply(),
+    idle: await oceanToken.balanceOf(vault),
+    strategyAssets: await basketStrategy.totalAssets(),
+    shares: await Promise.all(users.map((user) => vault.balanceOf(user))),
+    claims: await Promise.all(users.map((user) => vault.maxWithdraw(user))),
+  };
+}
+
+// Name of the custom error a failed transaction reverted with, if any
+function revertName(fixture: Fixture, error: unknown): string | undefined {
+  const data = (error as { data?: unknown }).data;
+  if (typeof data !== "string") return undefined;
+  for (const contract of [fixture.vault, fixture.oceanToken]) {
+    const parsed = contract.interface.parseError(data);
+    if (parsed) return parsed.name;
+  }
+  return undefined;
+}
+
+async function expectRevert(
+  fixture: Fixture,
+  transaction: Promise<unknown>,
+  errors: string[]
+): Promise<boolean> {
+  try {
+    await transaction;
+    return false;
+  } catch (error) {
+    const name = revertName(fixture, error);
+    if (name && errors.includes(name)) return true;
+    throw error;
+  }
+}
+
+// Awaits a withdrawal or redemption by `user` and checks it paid no more
+// per share burned than the remaining holders keep. Returns the assets paid
+// out, or undefined if it reverted with one of `errors`.
+async function exit(
+  fixture: Fixture,
+  user: Fixture["alice"],
+  send: () => Promise<unknown>,
+  errors: string[]
+): Promise<bigint | undefined> {
+  const { vault, oceanToken } = fixture;
+  const sharesBefore = await vault.balanceOf(user);
+  const walletBefore = await oceanToken.balanceOf(user);
+  if (await expectRevert(fixture, send(), errors)) return undefined;
+
+  const paid = (await oceanToken.balanceOf(user)) - walletBefore;
+  const burned = sharesBefore - (await vault.balanceOf(user));
+  expect(
+    paid * ((await vault.totalSupply()) + 1n),
+    "withdrawal paid more per share than the remaining holders keep"
+  ).to.be.at.most(burned * ((await vault.totalAssets()) + 1n));
+  return paid;
+}
+
+// Runs `action` and checks the invariants specific to it. Returns the net
+// assets users moved into the vault.
+async function apply(fixture: Fixture, action: Action): Promise<bigint> {
+  const { vault, oceanToken, basketStrategy, feeds, tokens, manager, users } =
+    fixture;
+
+  switch (action.kind) {
+    case "deposit": {
+      const user = users[action.user];
+      const assets = share(await oceanToken.balanceOf(user), action.bps);
+      if (assets === 0n) return 0n;
+      await vault.connect(user).deposit(assets, user.address);
+      return assets;
+    }
+    case "mint": {
+      const user = users[action.user];
+      // Half the wallet at most, so rounding up never costs more than it holds
+      const budget = share(await oceanToken.balanceOf(user), action.bps) / 2n;
+      const shares = await vault.convertToShares(budget);
+      if (shares === 0n) return 0n;
+      const before = await oceanToken.balanceOf(user);
+      await vault.connect(user).mint(shares, user.address);
+      return before - (await oceanToken.balanceOf(user));
+    }
+    case "withdraw":
+    case "redeem": {
+      const user = users[action.user];
+      const amount =
+        action.kind === "withdraw"
+          ? share(await vault.maxWithdraw(user), action.bps)
+          : share(await vault.balanceOf(user), action.bps);
+      if (amount === 0n) return 0n;
+
+      const paid = await exit(
+        fixture,
+        user,
+        () =>
+          action.kind === "withdraw"
+            ? vault.connect(user).withdraw(amount, user.address, user.address)
+            : vault.connect(user).redeem(amount, user.address, user.address),
+        SHORTFALL_ERRORS
+      );
+      return -(paid ?? 0n);
+    }
+    case "overdraw": {
+      const user = users[action.user];
+      if (action.via === "withdraw") {
+        // Liquidating for the withdrawal can realize a gain that lifts
+        // maxWithdraw within the transaction, so asking for more assets
+        // than quoted may succeed, but only at a fair price per share
+        const max = await vault.maxWithdraw(user);
+        const paid = await exit(
+          fixture,
+          user,
+          () =>
+            vault.connect(user).withdraw(max + 1n, user.address, user.address),
+          [...OVERDRAW_ERRORS, ...SHORTFALL_ERRORS]
+        );
+        return -(paid ?? 0n);
+      }
+
+      const transaction =
+        action.via === "redeem"
+          ? vault
+              .connect(user)
+              .redeem(
+                (await vault.balanceOf(user)) + 1n,
+                user.address,
+                user.address
+              )
+          : vault
+              .connect(user)
+              .redeem(1n, user.address, users[1 - action.user].address);
+      expect(
+        await expectRevert(fixture, transaction, OVERDRAW_ERRORS),
+        "overdraw did not revert"
+      ).to.equal(true);
+      return 0n;
+    }
+    case "invest": {
+      const amount = share(await oceanToken.balanceOf(vault), action.bps);
+      if (amount > 0n) await vault.connect(manager).manualInvest(amount);
+      return 0n;
+    }
+    case "free": {
+      const amount = share(await basketStrategy.totalAssets(), action.bps);
+      if (amount > 0n) await vault.connect(manager).manualFree(amount);
+      return 0n;
+    }
+    case "price": {
+      const feed = feeds[action.token];
+      const answer = await feed.latestAnswer();
+      const moved = (answer * BigInt(10000 + action.bps)) / 10000n;
+      await feed.updateAnswer(moved > 0n ? moved : 1n);
+      return 0n;
+    }
+    case "reallocate": {
+      await basketStrategy.setAllocations(
+        action.weights.map(([token, percentage]) => ({
+          token: tokens[token],
+          percentage,
+        }))
+      );
+      return 0n;
+    }
+  }
+}
+
+function checkInvariants(before: Snapshot, after: Snapshot, flow: bigint) {
+  expect(after.totalAssets, "totalAssets").to.equal(
+    after.idle + after.strategyAssets
+  );
+  expect(
+    after.shares.reduce((sum, shares) => sum + shares, 0n),
+    "shares held outside the users"
+  ).to.equal(after.totalSupply);
+  expect(
+    after.claims.reduce((sum, claim) => sum + claim, 0n),
+    "user claims exceed totalAssets"
+  ).to.be.at.most(after.totalAssets);
+
+  // Share price with ERC-4626's virtual share and asset, cross-multiplied
+  if (after.totalAssets >= before.totalAssets + flow) {
+    expect(
+      (after.totalAssets + 1n) * (before.totalSupply + 1n),
+      "share price fell without a strategy loss"
+    ).to.be.at.least((before.totalAssets + 1n) * (after.totalSupply + 1n));
+  }
+}
+
+async function replay(actions: Action[]) {
+  const fixture = await loadFixture(deployInvariantFixture);
+  let before = await snapshot(fixture);
+  for (const [index, action] of actions.entries()) {
+    try {
+      const flow = await apply(fixture, action);
+      const after = await snapshot(fixture);
+      checkInvariants(before, after, flow);
+      before = after;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`step ${index + 1} (${format(action)}): ${message}`);
+    }
+  }
+}
+
+describe("Vault invariants", function () {
+  // Every step is a handful of transactions and calls; shrinking a failure
+  // replays the sequence many times over
+  this.timeout(0);
+
+  it("Should keep share accounting sound across random action sequences", async function () {
+    await checkProperty<Action>({
+      seed: 1,
+      runs: 8,
+      steps: 30,
+      generate,
+      check: replay,
+      simplify,
+      format,
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+// The client has its own copy of ethers; its decoders expect those classes
+import { EventFragment, Result } from "../../client/node_modules/ethers";
+import { eventParticipants } from "../../client/lib/indexer/decode";
+import type { NewEvent } from "../../client/lib/indexer/db";
+
+const ALICE = "0x70997970C51812dc3A010C7d01b4AA0BdaF3d4b7";
+const BOB = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const TOKEN = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+function event(
+  blockNumber: number,
+  logIndex: number,
+  name: string,
+  participants: string[]
+): NewEvent {
+  return {
+    contract: "vault",
+    address: TOKEN,
+    event: name,
+    blockNumber,
+    blockHash: hre.ethers.id(`block ${blockNumber}`),
+    transactionHash: hre.ethers.id(`tx ${blockNumber}:${logIndex}`),
+    logIndex,
+    args: {},
+    participants: participants.map((address) => address.toLowerCase()),
+  };
+}
+
+describe("indexer", function () {
+  let directory: string;
+  let db: typeof import("../../client/lib/indexer/db");
+
+  before(async function () {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+    process.env.INDEXER_DB_PATH = path.join(directory, "events.db");
+    db = await import("../../client/lib/indexer/db");
+  });
+
+  after(function () {
+    db.getDatabase().close();
+    delete process.env.INDEXER_DB_PATH;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe("eventParticipants", function () {
+    it("Should collect address and address[] arguments, lowercased", function () {
+      const fragment = EventFragment.from(
+        "event Moved(address indexed sender, address[] tokens, uint256 amount, address receiver)"
+      );
+      const args = Result.fromItems([ALICE, [TOKEN, BOB], 5, BOB]);
+
+      expect(eventParticipants(fragment, args)).to.deep.equal([
+        ALICE.toLowerCase(),
+        TOKEN.toLowerCase(),
+        BOB.toLowerCase(),
+      ]);
+    });
+  });
+
+  describe("queryEvents", function () {
+    before(function () {
+      db.saveBatch(
+        [
+          event(10, 0, "Deposit", [ALICE]),
+          event(11, 0, "Transfer", [ALICE, BOB]),
+          event(12, 0, "Withdraw", [BOB]),
+        ],
+        [10, 11, 12].map((number) => ({
+          number,
+          hash: hre.ethers.id(`block ${number}`),
+        }))
+      );
+    });
+
+    it("Should filter by participant address, in any case", function () {
+      const events = db.queryEvents({
+        address: ALICE.toUpperCase().replace("0X", "0x"),
+        limit: 10,
+      });
+
+      expect(events.map((e) => e.event)).to.deep.equal(["Transfer", "Deposit"]);
+    });
+
+    it("Should combine the address filter with a block range", function () {
+      const events = db.queryEvents({ address: BOB, fromBlock: 12, limit: 10 });
+
+      expect(events.map((e) => e.event)).to.deep.equal(["Withdraw"]);
+    });
+
+    it("Should drop participants of rolled back events", function () {
+      db.rollbackTo(10);
+
+      expect(db.queryEvents({ address: BOB, limit: 10 })).to.be.empty;
+      expect(db.queryEvents({ address: ALICE, limit: 10 })).to.have.length(1);
+    });
+  });
+});
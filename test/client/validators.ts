@@ -0,0 +1,61 @@
+import { expect } from "chai";
+import { StrategyConstraints, TokenAllocation } from "../../client/types";
+import { toContractAllocations } from "../../client/utils/allocationMath";
+import {
+  validateAllocations,
+  validateStrategyConstraints,
+} from "../../client/utils/validators";
+
+const TOKENS = [
+  "0x1111111111111111111111111111111111111111",
+  "0x2222222222222222222222222222222222222222",
+  "0x3333333333333333333333333333333333333333",
+];
+
+function allocationsOf(percentages: number[]): TokenAllocation[] {
+  return percentages.map((percentage, index) => ({
+    token: `TK${index}`,
+    percentage,
+    amount: percentage,
+    tokenAddress: TOKENS[index],
+  }));
+}
+
+const constraints: StrategyConstraints = {
+  maxAllocations: 10,
+  maxBps: 10000,
+  tokens: Object.fromEntries(
+    TOKENS.map((address) => [address, { allowed: true, hasPriceFeed: true }])
+  ),
+};
+
+describe("validators", function () {
+  describe("validateStrategyConstraints", function () {
+    it("Should accept a 1 bp residue that submission apportions away", function () {
+      // 3334 + 3334 + 3333 = 10001 raw bps
+      const allocations = allocationsOf([33.34, 33.34, 33.33]);
+
+      expect(validateStrategyConstraints(allocations, constraints)).to.be.empty;
+      expect(validateAllocations(allocations, 100, constraints)).to.be.empty;
+
+      const submitted = toContractAllocations(allocations).reduce(
+        (sum, allocation) => sum + allocation.percentage,
+        0
+      );
+      expect(submitted).to.equal(constraints.maxBps);
+    });
+
+    it("Should flag totals above the strategy maximum", function () {
+      const errors = validateStrategyConstraints(
+        allocationsOf([50, 50, 0.02]),
+        constraints
+      );
+
+      expect(errors).to.deep.include({
+        index: -1,
+        field: "allocations",
+        message: "Total of 10002 bps exceeds the strategy maximum of 10000",
+      });
+    });
+  });
+});
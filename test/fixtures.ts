@@ -0,0 +1,143 @@
+import hre from "hardhat";
+import {
+  FEED_DECIMALS,
+  feedAnswer,
+  LOCAL_TOKENS,
+  poolAmount,
+} from "../scripts/localDefi";
+
+// Shared deployments for the contract tests, meant to be passed to
+// loadFixture so each test starts from the same snapshot.
+
+export const USER_FUNDS = hre.ethers.parseEther("100000");
+
+// OceanToken + Vault with SimpleStrategy and MockStrategy deployed but not
+// yet set on the vault. Users start with USER_FUNDS of OCT each.
+export async function deployVaultFixture() {
+  const [owner, manager, alice, bob] = await hre.ethers.getSigners();
+
+  const oceanToken = await hre.ethers.deployContract("OceanToken");
+  const vault = await hre.ethers.deployContract("Vault", [oceanToken]);
+  await vault.setManager(manager.address);
+
+  const simpleStrategy = await hre.ethers.deployContract("SimpleStrategy", [
+    oceanToken,
+    vault,
+    owner.address,
+  ]);
+  const mockStrategy = await hre.ethers.deployContract("MockStrategy", [
+    oceanToken,
+    vault,
+  ]);
+
+  for (const user of [alice, bob]) {
+    await oceanToken.transfer(user.address, USER_FUNDS);
+    await oceanToken.connect(user).approve(vault, hre.ethers.MaxUint256);
+  }
+
+  return {
+    oceanToken,
+    vault,
+    simpleStrategy,
+    mockStrategy,
+    owner,
+    manager,
+    alice,
+    bob,
+  };
+}
+
+// Vault fixture with `strategy` set, which needs a pause around setStrategy
+export async function setStrategy(
+  vault: Awaited<ReturnType<typeof deployVaultFixture>>["vault"],
+  strategy: { getAddress(): Promise<string> }
+) {
+  await vault.pause();
+  await vault.setStrategy(await strategy.getAddress());
+  await vault.unpause();
+}
+
+export async function deployVaultWithMockStrategyFixture() {
+  const fixture = await deployVaultFixture();
+  await setStrategy(fixture.vault, fixture.mockStrategy);
+  return fixture;
+}
+
+// The local DeFi environment of scripts/deploy.ts (mock tokens, WETH, a
+// constant-product router with TOKEN/WETH pools at feed prices and a price
+// feed per token) with AIBasketStrategy as the vault's strategy. Every token
+// except LINK is allowed; LINK has a feed but no router pool.
+export async function deployBasketFixture() {
+  const fixture = await deployVaultFixture();
+  const { owner, oceanToken, vault } = fixture;
+
+  const weth = await hre.ethers.deployContract("MockWETH");
+  const router = await hre.ethers.deployContract("MockRouter");
+  const basketStrategy = await hre.ethers.deployContract("AIBasketStrategy", [
+    oceanToken,
+    vault,
+    router,
+    weth,
+    owner.address,
+  ]);
+
+  const tokens: Record<string, string> = {
+    OCT: await oceanToken.getAddress(),
+    WETH: await weth.getAddress(),
+  };
+  const feeds: Record<string, Awaited<ReturnType<typeof deployFeed>>> = {};
+  for (const config of LOCAL_TOKENS) {
+    if (!tokens[config.symbol]) {
+      const token = await hre.ethers.deployContract("MockERC20", [
+        config.name,
+        config.symbol,
+        config.decimals,
+      ]);
+      tokens[config.symbol] = await token.getAddress();
+    }
+    feeds[config.symbol] = await deployFeed(config.price);
+
+    if (config.symbol !== "OCT") {
+      await basketStrategy.allowToken(tokens[config.symbol]);
+    }
+    await basketStrategy.setPriceFeed(
+      tokens[config.symbol],
+      feeds[config.symbol]
+    );
+  }
+
+  const wethPerPool = poolAmount(
+    LOCAL_TOKENS.find((config) => config.symbol === "WETH")!
+  );
+  for (const config of LOCAL_TOKENS) {
+    if (config.symbol === "WETH" || config.symbol === "LINK") continue;
+
+    const amount = poolAmount(config);
+    if (config.symbol !== "OCT") {
+      const mock = await hre.ethers.getContractAt(
+        "MockERC20",
+        tokens[config.symbol]
+      );
+      await mock.mint(owner.address, amount);
+    }
+    const token = await hre.ethers.getContractAt(
+      "IERC20",
+      tokens[config.symbol]
+    );
+    await token.approve(router, amount);
+    await weth.deposit({ value: wethPerPool });
+    await weth.approve(router, wethPerPool);
+    await router.addLiquidity(tokens[config.symbol], weth, amount, wethPerPool);
+  }
+
+  await setStrategy(vault, basketStrategy);
+
+  return { ...fixture, weth, router, basketStrategy, tokens, feeds };
+}
+
+async function deployFeed(price: string) {
+  return hre.ethers.deployContract("MockV3Aggregator", [
+    FEED_DECIMALS,
+    feedAnswer(price),
+  ]);
+}
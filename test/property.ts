@@ -0,0 +1,143 @@
+// Minimal property-based testing: random action sequences from a seeded
+// PRNG, replayed against a fresh fixture, with failing sequences shrunk to
+// a smaller reproduction before they are reported.
+//
+// INVARIANT_SEED, INVARIANT_RUNS and INVARIANT_STEPS override the defaults
+// of a property, e.g. to replay a reported failure or run a longer soak.
+
+export type Random = () => number;
+
+// mulberry32: small, fast and good enough to spread test inputs
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomInt(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+export function pick<T>(random: Random, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+export interface Property<A> {
+  runs: number;
+  steps: number;
+  seed: number;
+  generate(random: Random): A;
+  // Replays `actions` from a fresh state, throwing on the first broken invariant
+  check(actions: A[]): Promise<void>;
+  // Simpler variants of an action to try while shrinking
+  simplify?(action: A): A[];
+  format(action: A): string;
+  // Upper bound on replays spent shrinking one failure
+  maxShrinks?: number;
+}
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  return value === undefined || value === "" ? undefined : Number(value);
+}
+
+export async function checkProperty<A>(property: Property<A>): Promise<void> {
+  const seed = envNumber("INVARIANT_SEED") ?? property.seed;
+  const runs = envNumber("INVARIANT_RUNS") ?? property.runs;
+  const steps = envNumber("INVARIANT_STEPS") ?? property.steps;
+
+  for (let run = 0; run < runs; run++) {
+    const runSeed = seed + run;
+    const random = seededRandom(runSeed);
+    const actions = Array.from({ length: steps }, () =>
+      property.generate(random)
+    );
+
+    const error = await failure(property, actions);
+    if (!error) continue;
+
+    const shrunk = await shrink(property, actions, error);
+    const lines = shrunk.actions.map(
+      (action, index) => `  ${index + 1}. ${property.format(action)}`
+    );
+    throw new Error(
+      `Property failed with seed ${runSeed} (INVARIANT_SEED=${runSeed} ` +
+        `INVARIANT_RUNS=1 INVARIANT_STEPS=${steps} to replay), shrunk from ` +
+        `${actions.length} to ${shrunk.actions.length} actions:\n` +
+        `${lines.join("\n")}\n${shrunk.error.message}`
+    );
+  }
+}
+
+async function failure<A>(
+  property: Property<A>,
+  actions: A[]
+): Promise<Error | undefined> {
+  try {
+    await property.check(actions);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  }
+}
+
+// Removes chunks of actions, halving the chunk size down to single actions,
+// then simplifies the remaining actions one by one; keeps any candidate
+// that still fails.
+async function shrink<A>(
+  property: Property<A>,
+  actions: A[],
+  error: Error
+): Promise<{ actions: A[]; error: Error }> {
+  let current = { actions, error };
+  let budget = property.maxShrinks ?? 200;
+
+  const attempt = async (candidate: A[]) => {
+    if (budget-- <= 0) return false;
+    const candidateError = await failure(property, candidate);
+    if (!candidateError) return false;
+    current = { actions: candidate, error: candidateError };
+    return true;
+  };
+
+  let improved = true;
+  while (improved && budget > 0) {
+    improved = false;
+
+    for (
+      let size = Math.ceil(current.actions.length / 2);
+      size >= 1;
+      size = size > 1 ? Math.ceil(size / 2) : 0
+    ) {
+      for (let start = 0; start < current.actions.length;) {
+        const candidate = [
+          ...current.actions.slice(0, start),
+          ...current.actions.slice(start + size),
+        ];
+        if (candidate.length > 0 && (await attempt(candidate))) {
+          improved = true;
+        } else {
+          start += size;
+        }
+      }
+    }
+
+    for (let index = 0; index < current.actions.length; index++) {
+      for (const simpler of property.simplify?.(current.actions[index]) ?? []) {
+        const candidate = [...current.actions];
+        candidate[index] = simpler;
+        if (await attempt(candidate)) {
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+
+  return current;
+}